@@ -1,8 +1,8 @@
-import React from 'react';
 import { Brain, Clock } from 'lucide-react';
-import { BrowserRouter, Routes, Route, Link, useNavigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, useNavigate } from 'react-router-dom';
 import ChessNapTracker from './components/ChessNapTracker';
 import Stupidometer from './components/Stupidometer';
+import ClubComparison from './components/ClubComparison';
 
 function LandingPage() {
   const navigate = useNavigate();
@@ -74,7 +74,9 @@ function App() {
       <Routes>
         <Route path="/" element={<LandingPage />} />
         <Route path="/nap-tracker" element={<ChessNapTracker />} />
+        <Route path="/nap-tracker/:platform/:username" element={<ChessNapTracker />} />
         <Route path="/stupidometer" element={<Stupidometer />} />
+        <Route path="/club" element={<ClubComparison />} />
       </Routes>
     </BrowserRouter>
   );
@@ -0,0 +1,127 @@
+import { Color, Judgment, NormalizedGame, NormalizedMove, fenBefore } from './games';
+import { Engine, EngineEvaluation } from './engine';
+
+// Smallest drop in the mover's winning chances, in percentage points, for each label
+// These match the thresholds Lichess uses for its own computer analysis
+export const JUDGMENT_THRESHOLDS: Record<Judgment, number> = {
+  inaccuracy: 5,
+  mistake: 10,
+  blunder: 15
+};
+
+export interface WorstMove {
+  move: NormalizedMove;
+  // Drop in the mover's winning chances, in percentage points
+  loss: number;
+}
+
+export interface AnalyzeOptions {
+  depth: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Lichess's logistic fit from centipawns to White's winning chances, 0..100
+export function winChance(cp: number): number {
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+}
+
+// White's winning chances for an evaluation of a position where `toMove` is about to play
+export function evaluationWinChance(evaluation: { cp?: number; mate?: number }, toMove: Color): number {
+  if (evaluation.mate !== undefined) {
+    // Mate 0 means the side to move has already been mated
+    if (evaluation.mate === 0) return toMove === 'white' ? 0 : 100;
+    return evaluation.mate > 0 ? 100 : 0;
+  }
+  return winChance(evaluation.cp ?? 0);
+}
+
+export function classifyLoss(loss: number): Judgment | undefined {
+  if (loss >= JUDGMENT_THRESHOLDS.blunder) return 'blunder';
+  if (loss >= JUDGMENT_THRESHOLDS.mistake) return 'mistake';
+  if (loss >= JUDGMENT_THRESHOLDS.inaccuracy) return 'inaccuracy';
+  return undefined;
+}
+
+export function formatEvaluation(evaluation: { cp?: number; mate?: number }): string {
+  if (evaluation.mate !== undefined) return evaluation.mate === 0 ? '#' : `#${evaluation.mate}`;
+  if (evaluation.cp === undefined) return '-';
+  const pawns = evaluation.cp / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+}
+
+// How much each evaluated move cost the player who made it, keyed by ply
+// The first move is measured against an even position when nothing came before it
+export function moveLosses(game: NormalizedGame): Map<number, number> {
+  const losses = new Map<number, number>();
+  let previous: { cp?: number; mate?: number } = { cp: 0 };
+  let previousToMove: Color = game.moves[0]?.color ?? 'white';
+
+  for (const move of game.moves) {
+    if (move.eval === undefined && move.mate === undefined) break;
+    const current = { cp: move.eval, mate: move.mate };
+    const toMove: Color = move.color === 'white' ? 'black' : 'white';
+    const before = evaluationWinChance(previous, previousToMove);
+    const after = evaluationWinChance(current, toMove);
+    losses.set(move.ply, move.color === 'white' ? before - after : after - before);
+    previous = current;
+    previousToMove = toMove;
+  }
+
+  return losses;
+}
+
+// The player's costliest labelled moves in a game, worst first
+export function worstMoves(game: NormalizedGame, color: Color, limit = 3): WorstMove[] {
+  const losses = moveLosses(game);
+  return game.moves
+    .filter(move => move.color === color && move.judgment)
+    .map(move => ({ move, loss: losses.get(move.ply) ?? 0 }))
+    .sort((a, b) => b.loss - a.loss)
+    .slice(0, limit);
+}
+
+// Evaluate every replayable position of a game and label each move by what it threw away
+export async function analyzeGame(
+  game: NormalizedGame,
+  engine: Engine,
+  { depth, signal, onProgress }: AnalyzeOptions
+): Promise<NormalizedGame> {
+  const playable = game.moves.filter(move => move.fen);
+  const startFen = playable.length > 0 ? fenBefore(game, playable[0].ply) : undefined;
+  if (!startFen) return game;
+
+  const fens = [startFen, ...playable.map(move => move.fen!)];
+  const evaluations: EngineEvaluation[] = [];
+  for (const fen of fens) {
+    if (signal?.aborted) throw new DOMException('Analysis cancelled', 'AbortError');
+    evaluations.push(await engine.evaluate(fen, depth));
+    onProgress?.(evaluations.length, fens.length);
+  }
+
+  const colorToMove = (fen: string): Color => fen.split(' ')[1] === 'b' ? 'black' : 'white';
+  const analyzed = new Map<number, NormalizedMove>();
+  playable.forEach((move, index) => {
+    const before = evaluations[index];
+    const after = evaluations[index + 1];
+    const whiteBefore = evaluationWinChance(before, colorToMove(fens[index]));
+    const whiteAfter = evaluationWinChance(after, colorToMove(fens[index + 1]));
+    const loss = move.color === 'white' ? whiteBefore - whiteAfter : whiteAfter - whiteBefore;
+    // Playing the engine's own choice is never a mistake, whatever the search noise says
+    const judgment = move.uci === before.bestMove ? undefined : classifyLoss(loss);
+
+    analyzed.set(move.ply, {
+      ...move,
+      eval: after.cp,
+      mate: after.mate,
+      bestMove: before.bestMove,
+      judgment
+    });
+  });
+
+  return {
+    ...game,
+    moves: game.moves.map(move => analyzed.get(move.ply) ?? move),
+    analysis: { source: 'engine', depth }
+  };
+}
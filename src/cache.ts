@@ -0,0 +1,118 @@
+import { Platform } from './games';
+
+// Local IndexedDB cache of downloaded games, partitioned by platform and username
+const DB_NAME = 'chessnaptracker';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const USERS_STORE = 'users';
+
+interface CacheEntry<T> {
+  key: string;
+  owner: string;
+  value: T;
+}
+
+export interface SyncInfo {
+  owner: string;
+  platform: Platform;
+  username: string;
+  lastSync: number;
+}
+
+// Settles to null when IndexedDB is missing or blocked (e.g. private browsing), so that is only checked once
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function cacheOwner(platform: Platform, username: string): string {
+  return `${platform}:${username.toLowerCase()}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+          entries.createIndex('owner', 'owner');
+          db.createObjectStore(USERS_STORE, { keyPath: 'owner' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+      } catch {
+        // Some browsers throw from open() itself when storage is disabled
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  // The cache is an optimisation only, so a missing IndexedDB or a failed request just means no cache
+  const db = await openDatabase();
+  if (!db) return undefined;
+  try {
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return await requestToPromise(action(store));
+  } catch {
+    return undefined;
+  }
+}
+
+export async function readCache<T>(platform: Platform, username: string, key: string): Promise<T | undefined> {
+  const owner = cacheOwner(platform, username);
+  const entry = await withStore<CacheEntry<T> | undefined>(ENTRIES_STORE, 'readonly', store =>
+    store.get(`${owner}:${key}`)
+  );
+  return entry?.value;
+}
+
+export async function writeCache<T>(platform: Platform, username: string, key: string, value: T): Promise<void> {
+  const owner = cacheOwner(platform, username);
+  const entry: CacheEntry<T> = { key: `${owner}:${key}`, owner, value };
+  await withStore(ENTRIES_STORE, 'readwrite', store => store.put(entry));
+}
+
+export async function markSynced(platform: Platform, username: string): Promise<void> {
+  const info: SyncInfo = {
+    owner: cacheOwner(platform, username),
+    platform,
+    username,
+    lastSync: Date.now()
+  };
+  await withStore(USERS_STORE, 'readwrite', store => store.put(info));
+}
+
+export async function getSyncInfo(platform: Platform, username: string): Promise<SyncInfo | undefined> {
+  return withStore<SyncInfo | undefined>(USERS_STORE, 'readonly', store =>
+    store.get(cacheOwner(platform, username))
+  );
+}
+
+export async function clearCache(platform: Platform, username: string): Promise<void> {
+  const owner = cacheOwner(platform, username);
+  const keys = await withStore(ENTRIES_STORE, 'readonly', store =>
+    store.index('owner').getAllKeys(owner)
+  );
+  for (const key of keys || []) {
+    await withStore(ENTRIES_STORE, 'readwrite', store => store.delete(key));
+  }
+  await withStore(USERS_STORE, 'readwrite', store => store.delete(owner));
+}
@@ -1,3 +1,11 @@
+import { ArchiveReport, Color, FetchOptions, GAME_TYPES, GameClock, GameLoadResult, GameQuery, GameSourceAdapter, IllegalMove, NormalizedGame, NormalizedMove, STANDARD_FEN, playerColor, resultFor, speedOfClock } from './games';
+import { markSynced, readCache, writeCache } from './cache';
+import { EmptyRangeError, MalformedResponseError, errorFromResponse, toGameSourceError } from './errors';
+import { fetchFrom, fetchWithRetry, mapWithConcurrency } from './http';
+import { PgnGame, parsePGN, replayMainline } from './pgn';
+import { ReplayResult, withPositions } from './chess';
+import { openingFromEcoUrl, resolveOpening } from './openings';
+
 export interface ChessComGame {
   url: string;
   pgn: string;
@@ -19,150 +27,286 @@ export interface ChessComGame {
   initial_setup?: string;
 }
 
-interface ClockInfo {
-  time: string;
+export interface ClockInfo {
+  time?: string;
   moveText: string;
   moveNumber: number;
+  ply: number;
   isWhite: boolean;
-  timeSpent?: string;
+  timeSpent?: number;
+  fen?: string;
 }
 
-function parseClockComment(comment: string): string | null {
-  const match = comment.match(/\[%clk\s+(\d+):(\d+):(\d+(?:\.\d+)?)\]/);
-  if (match) {
-    const [_, hours, minutes, seconds] = match;
-    return `${hours}:${minutes}:${Math.floor(parseFloat(seconds))}`;
-  }
-  return null;
+export interface TimeControl {
+  base: number;
+  increment: number;
+  // Later periods of a multi-period control, each added once a side has made `afterMove` moves
+  periods: { afterMove: number; seconds: number }[];
+}
+
+// Round to a tenth of a second, the precision chess.com records in [%clk]
+function roundToTenth(seconds: number): number {
+  return Math.round(seconds * 10) / 10;
+}
+
+function formatClock(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainingSeconds = roundToTenth(seconds % 60);
+  const secondsText = remainingSeconds < 10 ? `0${remainingSeconds}` : `${remainingSeconds}`;
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secondsText}`;
+}
+
+function clockToSeconds(time: string): number {
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
 }
 
-function calculateTimeSpent(currentTime: string, previousTime: string): string | undefined {
-  const [currentHours, currentMinutes, currentSeconds] = currentTime.split(':').map(Number);
-  const [previousHours, previousMinutes, previousSeconds] = previousTime.split(':').map(Number);
-  
-  const currentTotal = currentHours * 3600 + currentMinutes * 60 + currentSeconds;
-  const previousTotal = previousHours * 3600 + previousMinutes * 60 + previousSeconds;
-  
-  const timeSpent = previousTotal - currentTotal;
-  return timeSpent > 0 ? timeSpent.toString() : undefined;
+function calculateTimeSpent(currentSeconds: number, previousSeconds: number, increment: number = 0): number {
+  // The increment is credited after the move, so add it back to get the time actually used
+  const timeSpent = previousSeconds - currentSeconds + increment;
+  return Math.max(0, roundToTenth(timeSpent));
 }
 
-export function formatPGN(pgn: string): { text: string; clocks: ClockInfo[] } {
-  // Remove header information
-  const moves = pgn.replace(/\[.*?\]\s*\n/g, '').trim();
-  
-  // Split into moves while preserving clock comments
-  const movePattern = /(\d+\.(?:\.\.)?\s*\S+(?:\s*\{[^}]*\})?)/g;
-  const clockPattern = /\{([^}]*)\}/;
-  const formattedMoves: string[] = [];
+export function parseTimeControlSeconds(timeControl: string): TimeControl | null {
+  // Daily games ("1/86400") reset the clock every move, so there is no base to count down from
+  if (parseDailySeconds(timeControl) !== null) return null;
+
+  // FIDE controls list their periods as "moves/seconds" fields, e.g. "40/5400:1800+30"
+  const fields = timeControl.split(':').map(field => /^(?:(\d+)\/)?(\d+)(?:\+(\d+))?$/.exec(field.trim()));
+  // Every period but the last needs a move count, or the next one would never start
+  if (fields.some((field, index) => !field || (index < fields.length - 1 && !field[1]))) return null;
+
+  let afterMove = 0;
+  let increment = 0;
+  const periods: TimeControl['periods'] = [];
+  fields.forEach((field, index) => {
+    const [, moves, seconds, bonus] = field!;
+    if (bonus) increment = Number(bonus);
+    if (index > 0) periods.push({ afterMove, seconds: Number(seconds) });
+    afterMove += Number(moves);
+  });
+
+  return { base: Number(fields[0]![2]), increment, periods };
+}
+
+// Seconds allowed per move in a daily control like "1/259200", or null for live controls
+export function parseDailySeconds(timeControl: string): number | null {
+  const match = /^1\/(\d+)$/.exec(timeControl);
+  return match ? Number(match[1]) : null;
+}
+
+// Clock settings in milliseconds for a PGN-style TimeControl, live or daily
+export function gameClock(timeControl?: string): GameClock | undefined {
+  if (!timeControl) return undefined;
+  const daily = parseDailySeconds(timeControl);
+  if (daily) return { initial: daily * 1000, increment: 0, perMove: true };
+  const control = parseTimeControlSeconds(timeControl);
+  return control ? { initial: control.base * 1000, increment: control.increment * 1000 } : undefined;
+}
+
+// Per-move clock view of a parsed game; moves without [%clk] or [%emt] are left out
+export function extractClocks(game: PgnGame, timeControl?: string, replay: ReplayResult = replayMainline(game)): ClockInfo[] {
+  const controlText = timeControl || game.headers.TimeControl;
+  const control = controlText ? parseTimeControlSeconds(controlText) : null;
+  // Daily clocks go back to the full allotment after every move, so each move is measured from there
+  const daily = controlText ? parseDailySeconds(controlText) : null;
   const clocks: ClockInfo[] = [];
-  
-  let match;
-  let currentMoveNumber = 1;
-  let isWhiteMove = true;
-  let previousWhiteTime: string | null = null;
-  let previousBlackTime: string | null = null;
-
-  while ((match = movePattern.exec(moves)) !== null) {
-    const moveText = match[1];
-    const clockMatch = moveText.match(clockPattern);
-    
-    if (clockMatch) {
-      const clockComment = clockMatch[1];
-      const clock = parseClockComment(clockComment);
-      if (clock) {
-        const cleanMove = moveText.replace(clockPattern, '').trim();
-        formattedMoves.push(cleanMove);
-        
-        // Calculate time spent
-        let timeSpent: string | undefined;
-        if (isWhiteMove && previousWhiteTime) {
-          timeSpent = calculateTimeSpent(clock, previousWhiteTime);
-        } else if (!isWhiteMove && previousBlackTime) {
-          timeSpent = calculateTimeSpent(clock, previousBlackTime);
-        }
 
-        clocks.push({
-          time: clock,
-          moveText: cleanMove.replace(/^\d+\.\.?\.?\s*/, ''),
-          moveNumber: currentMoveNumber,
-          isWhite: isWhiteMove,
-          timeSpent
-        });
-
-        if (isWhiteMove) {
-          previousWhiteTime = clock;
-        } else {
-          previousBlackTime = clock;
-          currentMoveNumber++;
-        }
-        isWhiteMove = !isWhiteMove;
-      }
-    } else {
-      formattedMoves.push(moveText);
-      if (!isWhiteMove) {
-        currentMoveNumber++;
+  // Both sides start on the base clock, so the first move of each side has a reference
+  let previousWhiteTime: number | null = control ? control.base : daily;
+  let previousBlackTime: number | null = control ? control.base : daily;
+  const increment = control ? control.increment : 0;
+  const movesMade = { white: 0, black: 0 };
+
+  game.mainline.forEach((move, index) => {
+    const isWhite = move.color === 'white';
+    movesMade[move.color]++;
+    if (move.clock === undefined && move.emt === undefined) return;
+
+    // An explicit elapsed time beats anything derived from the clocks
+    let timeSpent: number | undefined = move.emt !== undefined ? roundToTenth(move.emt) : undefined;
+    const clock = move.clock !== undefined ? roundToTenth(move.clock) : undefined;
+    const previousTime = isWhite ? previousWhiteTime : previousBlackTime;
+    if (timeSpent === undefined && clock !== undefined && previousTime !== null) {
+      // A new period's time lands on the clock together with the move that reaches it
+      const period = control?.periods.find(period => period.afterMove === movesMade[move.color]);
+      timeSpent = calculateTimeSpent(clock, previousTime, increment + (period?.seconds ?? 0));
+    }
+
+    clocks.push({
+      time: clock !== undefined ? formatClock(clock) : undefined,
+      moveText: move.san,
+      moveNumber: move.moveNumber,
+      ply: move.ply,
+      isWhite,
+      timeSpent,
+      fen: replay.moves[index]?.fen
+    });
+
+    if (clock !== undefined && daily === null) {
+      if (isWhite) {
+        previousWhiteTime = clock;
+      } else {
+        previousBlackTime = clock;
       }
-      isWhiteMove = !isWhiteMove;
     }
+  });
+
+  return clocks;
+}
+
+// Every mainline move with its clock data and replayed position
+export function normalizePgnMoves(game: PgnGame, timeControl?: string): { moves: NormalizedMove[]; illegalMove?: IllegalMove } {
+  const replay = replayMainline(game);
+  const clocks = new Map(extractClocks(game, timeControl, replay).map(clock => [clock.ply, clock]));
+
+  const moves = game.mainline.map((move): NormalizedMove => {
+    const clock = clocks.get(move.ply);
+    return {
+      ply: move.ply,
+      moveNumber: move.moveNumber,
+      color: move.color,
+      san: move.san,
+      clock: clock?.time ? Math.round(clockToSeconds(clock.time) * 1000) : undefined,
+      thinkTime: clock?.timeSpent !== undefined ? Math.round(clock.timeSpent * 1000) : undefined
+    };
+  });
+
+  return { moves: withPositions(moves, replay), illegalMove: replay.error };
+}
+
+export function formatMoves(game: PgnGame): string {
+  return game.mainline
+    .map(move => move.color === 'white' ? `${move.moveNumber}. ${move.san}` : `${move.moveNumber}... ${move.san}`)
+    .join(' ');
+}
+
+export function formatPGN(pgn: string, timeControl?: string): { text: string; clocks: ClockInfo[] } {
+  const game = parsePGN(pgn);
+  if (!game) {
+    return { text: '', clocks: [] };
   }
 
   return {
-    text: formattedMoves.join(' '),
-    clocks
+    text: formatMoves(game),
+    clocks: extractClocks(game, timeControl)
   };
 }
 
 export function parseTimeControl(timeControl: string): string {
   // Handle daily games
-  if (timeControl === '1/86400') return '1 day';
-  if (timeControl === '1/259200') return '3 days';
-  if (timeControl === '1/432000') return '5 days';
-  if (timeControl === '1/604800') return '7 days';
-  if (timeControl === '1/1209600') return '14 days';
+  const daily = parseDailySeconds(timeControl);
+  if (daily) {
+    const days = daily / 86400;
+    return days === 1 ? '1 day' : `${days} days`;
+  }
 
   // Handle standard time controls
-  const [baseTime, increment] = timeControl.split('+').map(Number);
-  if (!isNaN(baseTime)) {
-    const minutes = Math.floor(baseTime / 60);
-    const seconds = baseTime % 60;
-    
-    let timeStr = '';
-    if (minutes > 0) {
-      timeStr += `${minutes}`;
-      if (seconds > 0) timeStr += `:${seconds.toString().padStart(2, '0')}`;
-    } else {
-      timeStr += `${seconds}s`;
-    }
-    
+  const control = parseTimeControlSeconds(timeControl);
+  if (control) {
     // Always show increment, use +0 if no increment
-    timeStr += `+${!isNaN(increment) ? increment : '0'}`;
-    
-    return timeStr;
+    const periods = control.periods.map(period => ` (+${formatPeriod(period.seconds)} at move ${period.afterMove})`);
+    return `${formatPeriod(control.base)}+${control.increment}${periods.join('')}`;
   }
 
   return '-';
 }
 
+function formatPeriod(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  if (minutes === 0) return `${rest}s`;
+  return rest > 0 ? `${minutes}:${rest.toString().padStart(2, '0')}` : `${minutes}`;
+}
+
+// chess.com's own time class, except that long rapid games count as classical by Lichess's
+// buckets, since chess.com has no classical class
+function speedOf(game: ChessComGame): string {
+  if (game.time_class !== 'rapid') return game.time_class;
+  const control = parseTimeControlSeconds(game.time_control);
+  return control && speedOfClock(control.base, control.increment) === 'classical' ? 'classical' : 'rapid';
+}
+
+// chess.com throttles parallel requests from one client, so keep this small
+const ARCHIVE_CONCURRENCY = 4;
+
+interface CachedArchive {
+  games: ChessComGame[];
+  closed: boolean;
+}
+
+function archiveMonth(archiveUrl: string): string {
+  return archiveUrl.split('/').slice(-2).join('/');
+}
+
+// chess.com archives are grouped by UTC month; once that month is over its archive can no longer change
+function isClosedMonth(month: string): boolean {
+  const [year, monthNumber] = month.split('/').map(Number);
+  const now = new Date();
+  return year * 12 + monthNumber - 1 < now.getUTCFullYear() * 12 + now.getUTCMonth();
+}
+
+async function fetchArchive(
+  username: string,
+  archiveUrl: string,
+  signal?: AbortSignal
+): Promise<{ games: ChessComGame[]; report: ArchiveReport }> {
+  const month = archiveMonth(archiveUrl);
+  const cacheKey = `archive:${month}`;
+  let attempts = 0;
+
+  const cached = await readCache<CachedArchive>('chess.com', username, cacheKey);
+  if (cached?.closed) {
+    return { games: cached.games, report: { month, status: 'cached', attempts } };
+  }
+
+  try {
+    const result = await fetchWithRetry('chess.com', archiveUrl, { signal });
+    attempts = result.attempts;
+    if (!result.response.ok) {
+      return {
+        games: [],
+        report: { month, status: 'failed', attempts, error: `HTTP ${result.response.status}` }
+      };
+    }
+
+    const gamesData = await result.response.json();
+    const games: ChessComGame[] = gamesData && Array.isArray(gamesData.games) ? gamesData.games : [];
+    await writeCache<CachedArchive>('chess.com', username, cacheKey, { games, closed: isClosedMonth(month) });
+    return {
+      games,
+      report: { month, status: attempts > 1 ? 'retried' : 'loaded', attempts }
+    };
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    return {
+      games: [],
+      report: { month, status: 'failed', attempts, error: e instanceof Error ? e.message : String(e) }
+    };
+  }
+}
+
 export async function fetchChessComGames(
   username: string,
   startDate?: string,
   endDate?: string,
-  gameType: string = 'all'
-): Promise<any[]> {
+  gameType: string = 'all',
+  { signal }: FetchOptions = {}
+): Promise<GameLoadResult> {
   try {
     const startTimestamp = startDate ? new Date(startDate).getTime() / 1000 : 0;
     const endTimestamp = endDate ? new Date(endDate).getTime() / 1000 : Infinity;
 
     // Fetch archives
-    const response = await fetch(`https://api.chess.com/pub/player/${username}/games/archives`);
+    const response = await fetchFrom('chess.com', `https://api.chess.com/pub/player/${username}/games/archives`, { signal });
     if (!response.ok) {
-      throw new Error('No games found');
+      throw errorFromResponse(response, 'chess.com', username);
     }
     
     const data = await response.json();
     if (!data || !data.archives || !Array.isArray(data.archives)) {
-      throw new Error('No games found');
+      throw new MalformedResponseError('chess.com', response.status);
     }
 
     // Get all archives that might contain games within the date range
@@ -191,25 +335,14 @@ export async function fetchChessComGames(
       })
       .reverse();
 
-    // Fetch games from all relevant archives
-    const allGames = [];
-    for (const archiveUrl of relevantArchives) {
-      try {
-        const gamesResponse = await fetch(archiveUrl);
-        if (!gamesResponse.ok) {
-          console.error(`Failed to fetch games from archive ${archiveUrl}`);
-          continue;
-        }
-        
-        const gamesData = await gamesResponse.json();
-        if (gamesData && gamesData.games) {
-          allGames.push(...gamesData.games);
-        }
-      } catch (e) {
-        console.error(`Error fetching games from archive ${archiveUrl}:`, e);
-        continue;
-      }
-    }
+    // Fetch games from all relevant archives, a few at a time
+    const archiveResults = await mapWithConcurrency(
+      relevantArchives as string[],
+      ARCHIVE_CONCURRENCY,
+      (archiveUrl) => fetchArchive(username, archiveUrl, signal)
+    );
+    const allGames = archiveResults.flatMap(result => result.games);
+    const archives = archiveResults.map(result => result.report);
 
     // Filter and process games
     const filteredGames = allGames
@@ -218,19 +351,14 @@ export async function fetchChessComGames(
         const gameTimestamp = game.end_time;
         return gameTimestamp >= startTimestamp && gameTimestamp <= endTimestamp;
       })
-      .filter((game: ChessComGame) => {
-        if (gameType === 'all') {
-          return ['blitz', 'rapid'].includes(game.time_class);
-        }
-        return game.time_class === gameType;
-      })
+      .filter((game: ChessComGame) => gameType === 'all' || speedOf(game) === gameType)
       .filter((game: ChessComGame) => {
         // Only include standard chess games (exclude variants)
         return !game.rules || game.rules === 'chess';
       })
       .filter((game: ChessComGame) => {
         // Check if game starts from standard position
-        return !game.initial_setup || game.initial_setup === 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+        return !game.initial_setup || game.initial_setup === STANDARD_FEN;
       })
       .filter((game: ChessComGame) => {
         // Filter out games against bots (Chess.com bots have "@bot" in their usernames)
@@ -239,52 +367,80 @@ export async function fetchChessComGames(
           : game.white.username.toLowerCase();
         return !opponent.includes('bot') && !opponent.includes('computer');
       })
-      .map((game: ChessComGame) => {
-        const isWhite = game.white.username.toLowerCase() === username.toLowerCase();
-        const playerRating = isWhite ? game.white.rating : game.black.rating;
-        
-        let result: 'win' | 'loss' | 'draw' = 'draw';
+      .map((game: ChessComGame): NormalizedGame => {
+        const userColor = playerColor(game.white.username, username);
+        const isWhite = userColor === 'white';
+
+        let winner: Color | undefined;
         if (game.white.result === 'win') {
-          result = isWhite ? 'win' : 'loss';
+          winner = 'white';
         } else if (game.black.result === 'win') {
-          result = isWhite ? 'loss' : 'win';
+          winner = 'black';
         }
 
-        const { text: formattedPgn, clocks } = formatPGN(game.pgn || '');
+        const pgnGame = parsePGN(game.pgn || '');
+        const { moves, illegalMove } = pgnGame
+          ? normalizePgnMoves(pgnGame, game.time_control)
+          : { moves: [], illegalMove: undefined };
 
         return {
           id: game.url,
+          platform: 'chess.com',
+          url: game.url,
           date: new Date(game.end_time * 1000).toISOString(),
           whitePlayer: game.white.username,
           blackPlayer: game.black.username,
-          result,
-          rating: playerRating,
-          gameType: `${game.time_class}${game.rated ? ' rated' : ' casual'}`,
+          userColor,
+          result: resultFor(userColor, winner),
+          rating: isWhite ? game.white.rating : game.black.rating,
+          opponentRating: isWhite ? game.black.rating : game.white.rating,
+          // The side that did not win carries the reason ("timeout", "resigned", "agreed", ...)
+          termination: winner === 'white' ? game.black.result : game.white.result,
+          gameType: `${speedOf(game)}${game.rated ? ' rated' : ' casual'}`,
           timeControl: parseTimeControl(game.time_control),
-          pgn: formattedPgn,
-          clocks,
-          expanded: false
+          opening: resolveOpening(moves, {
+            eco: pgnGame?.headers.ECO,
+            name: openingFromEcoUrl(pgnGame?.headers.ECOUrl)
+          }, pgnGame?.headers.FEN),
+          clock: gameClock(game.time_control),
+          moves,
+          illegalMove
         };
       })
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
-    if (filteredGames.length === 0) {
-      throw new Error('No games found');
+    if (archives.every(archive => archive.status !== 'failed')) {
+      await markSynced('chess.com', username);
     }
 
-    return filteredGames;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
+    // An empty result is only conclusive when every month actually loaded
+    if (filteredGames.length === 0 && archives.every(archive => archive.status !== 'failed')) {
+      throw new EmptyRangeError();
     }
-    throw new Error('No games found');
+
+    return { games: filteredGames, archives };
+  } catch (error) {
+    throw toGameSourceError(error, 'chess.com');
   }
 }
 
-export function openChessComPosition(gameUrl: string, moveNumber: number): void {
-  // Extract the game ID from the URL
-  const extractedId = gameUrl.split('/').pop()?.split('?')[0];
+export function openChessComPosition(game: NormalizedGame, moveNumber: number): void {
+  // Game URLs look like https://www.chess.com/game/live/123 or .../game/daily/123
+  const match = /\/game\/(live|daily)\/(\d+)/.exec(game.url);
+  const kind = match ? match[1] : game.clock?.perMove ? 'daily' : 'live';
+  const extractedId = match ? match[2] : game.url.split('/').pop()?.split('?')[0];
   if (extractedId) {
-    window.open(`https://www.chess.com/analysis/game/live/${extractedId}?tab=review&move=${moveNumber}`, '_blank');
+    window.open(`https://www.chess.com/analysis/game/${kind}/${extractedId}?tab=review&move=${moveNumber}`, '_blank');
   }
-}
\ No newline at end of file
+}
+
+export const chessComAdapter: GameSourceAdapter = {
+  platform: 'chess.com',
+  label: 'Chess.com',
+  input: 'username',
+  cached: true,
+  gameTypes: GAME_TYPES,
+  fetchGames: ({ username, startDate, endDate, gameType }: GameQuery, options?: FetchOptions) =>
+    fetchChessComGames(username, startDate, endDate, gameType, options),
+  openPosition: openChessComPosition
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Position, legalMoves, makeMove, moveToUci, parseFEN, parseSan, squareName } from './chess';
+import { STANDARD_FEN } from './games';
+
+// Leaf nodes of the legal move tree, checked against the published counts
+function perft(position: Position, depth: number): number {
+  const moves = legalMoves(position);
+  if (depth === 1) return moves.length;
+  return moves.reduce((nodes, move) => nodes + perft(makeMove(position, move), depth - 1), 0);
+}
+
+describe('legalMoves', () => {
+  it.each([
+    ['the start position', STANDARD_FEN, [20, 400, 8902]],
+    ['Kiwipete', 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1', [48, 2039, 97862]],
+    ['position 3', '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1', [14, 191, 2812]],
+    ['position 4', 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1', [6, 264, 9467]],
+    ['position 5', 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8', [44, 1486, 62379]]
+  ])('matches perft counts for %s', (_, fen, counts) => {
+    const position = parseFEN(fen);
+    expect(counts.map((_, index) => perft(position, index + 1))).toEqual(counts);
+  });
+});
+
+describe('parseSan', () => {
+  it('reads castling written with zeros', () => {
+    const position = parseFEN('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    expect(parseSan(position, '0-0')).toMatchObject({ castle: 'k' });
+    expect(parseSan(position, '0-0-0')).toMatchObject({ castle: 'q' });
+  });
+
+  it('reads a promotion without "="', () => {
+    const move = parseSan(parseFEN('8/4P3/8/8/8/8/k7/4K3 w - - 0 1'), 'e8Q');
+    expect(move && moveToUci(move)).toBe('e7e8q');
+  });
+
+  it('needs the file to tell two knights apart', () => {
+    const position = parseFEN('4k3/8/8/8/8/5N2/8/1N2K3 w - - 0 1');
+    expect(parseSan(position, 'Nd2')).toBeNull();
+    expect(squareName(parseSan(position, 'Nbd2')!.from)).toBe('b1');
+    expect(squareName(parseSan(position, 'Nfd2')!.from)).toBe('f3');
+  });
+});
@@ -0,0 +1,413 @@
+import { GamePhase, IllegalMove, NormalizedMove, STANDARD_FEN } from './games';
+
+// Minimal chess rules: FEN in/out, legal move generation and SAN replay
+// Squares are 0..63 with a1 = 0, h1 = 7, a8 = 56; pieces are FEN letters, '' for empty
+type Side = 'w' | 'b';
+
+export interface Position {
+  board: string[];
+  turn: Side;
+  castling: string;
+  epSquare: number;
+  halfmove: number;
+  fullmove: number;
+}
+
+export interface ChessMove {
+  from: number;
+  to: number;
+  piece: string;
+  captured?: string;
+  promotion?: string;
+  castle?: 'k' | 'q';
+  enPassant?: boolean;
+}
+
+export interface ReplayedMove {
+  san: string;
+  uci: string;
+  fen: string;
+  capture: boolean;
+  check: boolean;
+  phase: GamePhase;
+}
+
+export interface ReplayResult {
+  moves: ReplayedMove[];
+  // Set when a move could not be parsed or is illegal; replay stops there
+  error?: IllegalMove;
+}
+
+const OPENING_MOVES = 12;
+// Queens, rooks and minor pieces left on the board, in pawns; 62 at the start
+const ENDGAME_MATERIAL = 26;
+const PIECE_VALUES: Record<string, number> = { q: 9, r: 5, b: 3, n: 3 };
+
+const KNIGHT_STEPS = [[1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]];
+const KING_STEPS = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+const ROOK_DIRECTIONS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const BISHOP_DIRECTIONS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+export function squareName(square: number): string {
+  return `${'abcdefgh'[square % 8]}${Math.floor(square / 8) + 1}`;
+}
+
+export function parseSquare(name: string): number {
+  return (name.charCodeAt(1) - 49) * 8 + (name.charCodeAt(0) - 97);
+}
+
+function sideOf(piece: string): Side {
+  return piece === piece.toUpperCase() ? 'w' : 'b';
+}
+
+function offset(square: number, fileStep: number, rankStep: number): number {
+  const file = (square % 8) + fileStep;
+  const rank = Math.floor(square / 8) + rankStep;
+  return file >= 0 && file < 8 && rank >= 0 && rank < 8 ? rank * 8 + file : -1;
+}
+
+export function parseFEN(fen: string): Position {
+  const [placement, turn, castling, ep, halfmove, fullmove] = fen.trim().split(/\s+/);
+  const ranks = placement ? placement.split('/') : [];
+  if (ranks.length !== 8) {
+    throw new Error(`Invalid FEN: ${fen}`);
+  }
+
+  const board: string[] = new Array(64).fill('');
+  ranks.forEach((row, index) => {
+    const rank = 7 - index;
+    let file = 0;
+    for (const char of row) {
+      if (/\d/.test(char)) {
+        file += Number(char);
+      } else if (/[pnbrqkPNBRQK]/.test(char)) {
+        if (file < 8) board[rank * 8 + file] = char;
+        file++;
+      } else {
+        throw new Error(`Invalid FEN: ${fen}`);
+      }
+    }
+    if (file !== 8) {
+      throw new Error(`Invalid FEN: ${fen}`);
+    }
+  });
+
+  return {
+    board,
+    turn: turn === 'b' ? 'b' : 'w',
+    castling: castling && castling !== '-' ? castling : '',
+    epSquare: ep && ep !== '-' ? parseSquare(ep) : -1,
+    halfmove: parseInt(halfmove) || 0,
+    fullmove: parseInt(fullmove) || 1
+  };
+}
+
+export function toFEN(position: Position): string {
+  const rows: string[] = [];
+  for (let rank = 7; rank >= 0; rank--) {
+    let row = '';
+    let empty = 0;
+    for (let file = 0; file < 8; file++) {
+      const piece = position.board[rank * 8 + file];
+      if (piece) {
+        if (empty) row += empty;
+        row += piece;
+        empty = 0;
+      } else {
+        empty++;
+      }
+    }
+    rows.push(empty ? row + empty : row);
+  }
+
+  return [
+    rows.join('/'),
+    position.turn,
+    position.castling || '-',
+    position.epSquare >= 0 ? squareName(position.epSquare) : '-',
+    position.halfmove,
+    position.fullmove
+  ].join(' ');
+}
+
+export function isSquareAttacked(board: string[], square: number, by: Side): boolean {
+  const pawn = by === 'w' ? 'P' : 'p';
+  const pawnRank = by === 'w' ? -1 : 1;
+  if ([-1, 1].some(file => board[offset(square, file, pawnRank)] === pawn)) return true;
+
+  const knight = by === 'w' ? 'N' : 'n';
+  if (KNIGHT_STEPS.some(([f, r]) => board[offset(square, f, r)] === knight)) return true;
+
+  const king = by === 'w' ? 'K' : 'k';
+  if (KING_STEPS.some(([f, r]) => board[offset(square, f, r)] === king)) return true;
+
+  const slides = (directions: number[][], attackers: string) =>
+    directions.some(([f, r]) => {
+      let target = offset(square, f, r);
+      while (target >= 0) {
+        const piece = board[target];
+        if (piece) return sideOf(piece) === by && attackers.includes(piece.toLowerCase());
+        target = offset(target, f, r);
+      }
+      return false;
+    });
+
+  return slides(ROOK_DIRECTIONS, 'rq') || slides(BISHOP_DIRECTIONS, 'bq');
+}
+
+export function isInCheck(position: Position, side: Side = position.turn): boolean {
+  const king = position.board.indexOf(side === 'w' ? 'K' : 'k');
+  return king >= 0 && isSquareAttacked(position.board, king, side === 'w' ? 'b' : 'w');
+}
+
+function pseudoLegalMoves(position: Position): ChessMove[] {
+  const { board, turn } = position;
+  const enemy: Side = turn === 'w' ? 'b' : 'w';
+  const moves: ChessMove[] = [];
+
+  const add = (from: number, to: number, extra: Partial<ChessMove> = {}) => {
+    moves.push({ from, to, piece: board[from], captured: board[to] || undefined, ...extra });
+  };
+
+  for (let from = 0; from < 64; from++) {
+    const piece = board[from];
+    if (!piece || sideOf(piece) !== turn) continue;
+    const type = piece.toLowerCase();
+
+    if (type === 'p') {
+      const forward = turn === 'w' ? 1 : -1;
+      const startRank = turn === 'w' ? 1 : 6;
+      const lastRank = turn === 'w' ? 7 : 0;
+      const promotions = turn === 'w' ? ['Q', 'R', 'B', 'N'] : ['q', 'r', 'b', 'n'];
+      const addPawn = (to: number, extra: Partial<ChessMove> = {}) => {
+        if (Math.floor(to / 8) === lastRank) {
+          promotions.forEach(promotion => add(from, to, { ...extra, promotion }));
+        } else {
+          add(from, to, extra);
+        }
+      };
+
+      const one = offset(from, 0, forward);
+      if (one >= 0 && !board[one]) {
+        addPawn(one);
+        const two = offset(from, 0, 2 * forward);
+        if (Math.floor(from / 8) === startRank && !board[two]) add(from, two);
+      }
+      for (const file of [-1, 1]) {
+        const target = offset(from, file, forward);
+        if (target < 0) continue;
+        if (board[target] && sideOf(board[target]) === enemy) {
+          addPawn(target);
+        } else if (target === position.epSquare) {
+          add(from, target, { enPassant: true, captured: turn === 'w' ? 'p' : 'P' });
+        }
+      }
+      continue;
+    }
+
+    if (type === 'n' || type === 'k') {
+      for (const [f, r] of type === 'n' ? KNIGHT_STEPS : KING_STEPS) {
+        const to = offset(from, f, r);
+        if (to >= 0 && (!board[to] || sideOf(board[to]) === enemy)) add(from, to);
+      }
+    } else {
+      const directions = type === 'r' ? ROOK_DIRECTIONS : type === 'b' ? BISHOP_DIRECTIONS : [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS];
+      for (const [f, r] of directions) {
+        let to = offset(from, f, r);
+        while (to >= 0) {
+          if (board[to]) {
+            if (sideOf(board[to]) === enemy) add(from, to);
+            break;
+          }
+          add(from, to);
+          to = offset(to, f, r);
+        }
+      }
+    }
+
+    if (type === 'k') {
+      // Castling: rights still held, squares between empty, king not passing through check
+      const home = turn === 'w' ? 4 : 60;
+      const rights = turn === 'w' ? ['K', 'Q'] : ['k', 'q'];
+      if (from === home && !isSquareAttacked(board, home, enemy)) {
+        if (position.castling.includes(rights[0]) && !board[home + 1] && !board[home + 2] &&
+          !isSquareAttacked(board, home + 1, enemy)) {
+          add(from, home + 2, { castle: 'k' });
+        }
+        if (position.castling.includes(rights[1]) && !board[home - 1] && !board[home - 2] && !board[home - 3] &&
+          !isSquareAttacked(board, home - 1, enemy)) {
+          add(from, home - 2, { castle: 'q' });
+        }
+      }
+    }
+  }
+
+  return moves;
+}
+
+export function makeMove(position: Position, move: ChessMove): Position {
+  const board = [...position.board];
+  const side = position.turn;
+
+  board[move.to] = move.promotion || move.piece;
+  board[move.from] = '';
+  if (move.enPassant) {
+    board[move.to + (side === 'w' ? -8 : 8)] = '';
+  }
+  if (move.castle) {
+    const rookFrom = move.castle === 'k' ? move.from + 3 : move.from - 4;
+    const rookTo = move.castle === 'k' ? move.from + 1 : move.from - 1;
+    board[rookTo] = board[rookFrom];
+    board[rookFrom] = '';
+  }
+
+  // Moving the king or a rook, or capturing a rook on its home square, removes castling rights
+  let castling = position.castling;
+  const lostRights: Record<number, string> = { 0: 'Q', 7: 'K', 4: 'KQ', 56: 'q', 63: 'k', 60: 'kq' };
+  for (const square of [move.from, move.to]) {
+    for (const right of lostRights[square] || '') {
+      castling = castling.replace(right, '');
+    }
+  }
+
+  const isPawn = move.piece.toLowerCase() === 'p';
+  return {
+    board,
+    turn: side === 'w' ? 'b' : 'w',
+    castling,
+    epSquare: isPawn && Math.abs(move.to - move.from) === 16 ? (move.from + move.to) / 2 : -1,
+    halfmove: isPawn || move.captured ? 0 : position.halfmove + 1,
+    fullmove: side === 'b' ? position.fullmove + 1 : position.fullmove
+  };
+}
+
+export function legalMoves(position: Position): ChessMove[] {
+  return pseudoLegalMoves(position).filter(move => !isInCheck(makeMove(position, move), position.turn));
+}
+
+export function moveToUci(move: ChessMove): string {
+  return `${squareName(move.from)}${squareName(move.to)}${move.promotion ? move.promotion.toLowerCase() : ''}`;
+}
+
+// Write a legal move in SAN, disambiguating against the other legal moves
+export function moveToSan(position: Position, move: ChessMove): string {
+  const after = makeMove(position, move);
+  const suffix = isInCheck(after) ? (legalMoves(after).length === 0 ? '#' : '+') : '';
+  if (move.castle) return `${move.castle === 'k' ? 'O-O' : 'O-O-O'}${suffix}`;
+
+  const type = move.piece.toUpperCase();
+  const target = squareName(move.to);
+  const capture = move.captured ? 'x' : '';
+  const promotion = move.promotion ? `=${move.promotion.toUpperCase()}` : '';
+
+  if (type === 'P') {
+    const from = capture ? squareName(move.from)[0] : '';
+    return `${from}${capture}${target}${promotion}${suffix}`;
+  }
+
+  const rivals = legalMoves(position).filter(other =>
+    other.to === move.to && other.from !== move.from && other.piece === move.piece
+  );
+  let disambiguation = '';
+  if (rivals.length > 0) {
+    const from = squareName(move.from);
+    if (rivals.every(other => squareName(other.from)[0] !== from[0])) disambiguation = from[0];
+    else if (rivals.every(other => squareName(other.from)[1] !== from[1])) disambiguation = from[1];
+    else disambiguation = from;
+  }
+
+  return `${type}${disambiguation}${capture}${target}${suffix}`;
+}
+
+// SAN for a UCI move such as an engine's best move, or null when it is not legal in the position
+export function uciToSan(fen: string, uci: string): string | null {
+  const position = parseFEN(fen);
+  const move = legalMoves(position).find(candidate => moveToUci(candidate) === uci);
+  return move ? moveToSan(position, move) : null;
+}
+
+const SAN_PATTERN = /^([NBRQK])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([NBRQnbrq]))?$/;
+
+// Resolve a SAN string against the legal moves, tolerating "0-0", missing "=" and annotation marks
+export function parseSan(position: Position, san: string): ChessMove | null {
+  const clean = san.replace(/[+#!?]+$/, '').replace(/e\.p\.$/, '').trim();
+  const moves = legalMoves(position);
+
+  if (/^[O0]-[O0](-[O0])?$/.test(clean)) {
+    const castle = clean.length > 3 ? 'q' : 'k';
+    return moves.find(move => move.castle === castle) || null;
+  }
+
+  const match = SAN_PATTERN.exec(clean);
+  if (!match) return null;
+
+  const [, pieceLetter, fromFile, fromRank, target, promotion] = match;
+  const type = (pieceLetter || 'P').toLowerCase();
+  const to = parseSquare(target);
+
+  const candidates = moves.filter(move =>
+    move.to === to &&
+    move.piece.toLowerCase() === type &&
+    (!fromFile || squareName(move.from)[0] === fromFile) &&
+    (!fromRank || squareName(move.from)[1] === fromRank) &&
+    (move.promotion ? move.promotion.toLowerCase() === promotion?.toLowerCase() : !promotion)
+  );
+
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+// Opening by move number, endgame once enough pieces are traded off, middlegame in between;
+// without a board to count, late moves are taken as the endgame
+export function gamePhase(moveNumber: number, board?: string[]): GamePhase {
+  if (moveNumber <= OPENING_MOVES) return 'opening';
+  if (!board) return moveNumber > 40 ? 'endgame' : 'middlegame';
+  const material = board.reduce((total, piece) => total + (PIECE_VALUES[piece.toLowerCase()] || 0), 0);
+  return material <= ENDGAME_MATERIAL ? 'endgame' : 'middlegame';
+}
+
+// Replay SAN moves from a start position, recording the FEN after each one
+export function replaySan(sans: string[], initialFen: string = STANDARD_FEN): ReplayResult {
+  const moves: ReplayedMove[] = [];
+  let position: Position;
+  try {
+    position = parseFEN(initialFen);
+  } catch {
+    return { moves, error: { ply: 0, san: '', reason: `Invalid starting position "${initialFen}"` } };
+  }
+
+  for (let i = 0; i < sans.length; i++) {
+    const move = parseSan(position, sans[i]);
+    if (!move) {
+      return { moves, error: { ply: i + 1, san: sans[i], reason: `Illegal or unreadable move "${sans[i]}"` } };
+    }
+
+    const moveNumber = position.fullmove;
+    position = makeMove(position, move);
+    moves.push({
+      san: sans[i],
+      uci: moveToUci(move),
+      fen: toFEN(position),
+      capture: Boolean(move.captured),
+      check: isInCheck(position),
+      phase: gamePhase(moveNumber, position.board)
+    });
+  }
+
+  return { moves };
+}
+
+// Copy replayed positions onto normalized moves, matching them by order
+export function withPositions(moves: NormalizedMove[], replay: ReplayResult): NormalizedMove[] {
+  return moves.map((move, index) => {
+    const replayed = replay.moves[index];
+    if (!replayed) return { ...move, phase: gamePhase(move.moveNumber) };
+    return {
+      ...move,
+      fen: replayed.fen,
+      uci: replayed.uci,
+      capture: replayed.capture,
+      check: replayed.check,
+      phase: replayed.phase
+    };
+  });
+}
@@ -0,0 +1,115 @@
+import { Color, GamePhase, NormalizedGame, NormalizedMove, clocksAt } from './games';
+import { gamePhase } from './chess';
+
+export const GAME_PHASES: GamePhase[] = ['opening', 'middlegame', 'endgame'];
+// Full moves at which both players' remaining clocks are compared
+export const CLOCK_CHECKPOINTS = [20, 30, 40];
+// Share of the starting time below which a player counts as in time trouble
+export const LOW_CLOCK_SHARE = 0.1;
+
+// Average milliseconds for the player and the opponent; undefined when nothing was measured
+export interface ClockComparison {
+  user?: number;
+  opponent?: number;
+}
+
+export interface ClockCheckpoint extends ClockComparison {
+  moveNumber: number;
+  games: number;
+}
+
+export interface ClockStats {
+  timeControl: string;
+  games: number;
+  phases: Record<GamePhase, ClockComparison>;
+  // Games with a known starting time, and how many of them the player dipped under LOW_CLOCK_SHARE in
+  clockedGames: number;
+  lowClockGames: number;
+  timeLosses: number;
+  checkpoints: ClockCheckpoint[];
+}
+
+// The phase stored at normalization, falling back to the move number for moves built elsewhere
+export function phaseOf(move: NormalizedMove): GamePhase {
+  return move.phase ?? gamePhase(move.moveNumber);
+}
+
+export function lostOnTime(game: NormalizedGame): boolean {
+  return game.result === 'loss' && /timeout|outoftime|time forfeit/i.test(game.termination || '');
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+}
+
+function opposite(color: Color): Color {
+  return color === 'white' ? 'black' : 'white';
+}
+
+function clockStatsFor(timeControl: string, games: NormalizedGame[]): ClockStats {
+  const thinkTimes = {} as Record<GamePhase, { user: number[]; opponent: number[] }>;
+  for (const phase of GAME_PHASES) thinkTimes[phase] = { user: [], opponent: [] };
+  for (const game of games) {
+    for (const move of game.moves) {
+      if (move.thinkTime === undefined) continue;
+      thinkTimes[phaseOf(move)][move.color === game.userColor ? 'user' : 'opponent'].push(move.thinkTime);
+    }
+  }
+
+  const phases = {} as Record<GamePhase, ClockComparison>;
+  for (const phase of GAME_PHASES) {
+    phases[phase] = { user: average(thinkTimes[phase].user), opponent: average(thinkTimes[phase].opponent) };
+  }
+
+  const clockedGames = games.filter(game => game.clock);
+  const lowClockGames = clockedGames.filter(game => game.moves.some(move =>
+    move.color === game.userColor &&
+    move.clock !== undefined &&
+    move.clock < game.clock!.initial * LOW_CLOCK_SHARE
+  ));
+
+  const checkpoints = CLOCK_CHECKPOINTS.map(moveNumber => {
+    // Both players have made their Nth move once Black's Nth move is on the board
+    const reached = games.flatMap(game => {
+      const move = game.moves.find(move => move.moveNumber === moveNumber && move.color === 'black');
+      return move ? [{ game, clocks: clocksAt(game, move.ply) }] : [];
+    });
+    const remaining = (side: (game: NormalizedGame) => Color) => average(
+      reached
+        .map(({ game, clocks }) => clocks[side(game)])
+        .filter((clock): clock is number => clock !== undefined)
+    );
+    return {
+      moveNumber,
+      games: reached.length,
+      user: remaining(game => game.userColor),
+      opponent: remaining(game => opposite(game.userColor))
+    };
+  });
+
+  return {
+    timeControl,
+    games: games.length,
+    phases,
+    clockedGames: clockedGames.length,
+    lowClockGames: lowClockGames.length,
+    timeLosses: games.filter(lostOnTime).length,
+    checkpoints
+  };
+}
+
+// Clock behaviour per time control, most played first; mixing controls would make clock times meaningless
+export function clockStatsByTimeControl(games: NormalizedGame[]): ClockStats[] {
+  const groups = new Map<string, NormalizedGame[]>();
+  for (const game of games) {
+    const group = groups.get(game.timeControl);
+    if (group) {
+      group.push(game);
+    } else {
+      groups.set(game.timeControl, [game]);
+    }
+  }
+  return [...groups.entries()]
+    .map(([timeControl, group]) => clockStatsFor(timeControl, group))
+    .sort((a, b) => b.games - a.games);
+}
@@ -0,0 +1,49 @@
+import { GameQuery, NormalizedGame, Platform, failedArchives } from './games';
+import { gameSources } from './sources';
+import { isAbortError } from './errors';
+import { mapWithConcurrency } from './http';
+
+// Players are loaded a couple at a time so a big club doesn't trip the sites' rate limits
+const PLAYER_CONCURRENCY = 2;
+
+export interface PlayerRef {
+  platform: Platform;
+  username: string;
+}
+
+export interface PlayerLoad {
+  player: PlayerRef;
+  games: NormalizedGame[];
+  missingMonths: string[];
+  // Set when this player's games could not be loaded; the rest of the batch carries on
+  error?: string;
+}
+
+export function playerKey({ platform, username }: PlayerRef): string {
+  return `${platform}:${username.toLowerCase()}`;
+}
+
+// Load every player through their platform's adapter, reporting each as it finishes
+export async function loadPlayers(
+  players: PlayerRef[],
+  query: Omit<GameQuery, 'username' | 'file'>,
+  { signal, onPlayerLoaded }: { signal?: AbortSignal; onPlayerLoaded?: (load: PlayerLoad) => void } = {}
+): Promise<PlayerLoad[]> {
+  return mapWithConcurrency(players, PLAYER_CONCURRENCY, async (player) => {
+    let load: PlayerLoad;
+    try {
+      const result = await gameSources[player.platform].fetchGames({ ...query, username: player.username }, { signal });
+      load = { player, games: result.games, missingMonths: failedArchives(result) };
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) throw error;
+      load = {
+        player,
+        games: [],
+        missingMonths: [],
+        error: error instanceof Error ? error.message : 'Failed to fetch games.'
+      };
+    }
+    onPlayerLoaded?.(load);
+    return load;
+  });
+}
@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, ExternalLink } from 'lucide-react';
+import { NormalizedGame, NormalizedMove, clocksAt, fenBefore } from '../games';
+import { parseFEN, parseSquare } from '../chess';
+import { formatTimeSpent } from '../format';
+import ClockChart from './ClockChart';
+
+const PIECE_GLYPHS: Record<string, string> = {
+  K: '♔', Q: '♕', R: '♖', B: '♗', N: '♘', P: '♙',
+  k: '♚', q: '♛', r: '♜', b: '♝', n: '♞', p: '♟'
+};
+
+// How many moves either side of the nap the move strip shows
+const CONTEXT_PLIES = 6;
+
+interface BoardViewerProps {
+  game: NormalizedGame;
+  ply: number;
+  // Which of the player's moves to highlight as naps on the clock chart, by the active threshold
+  isNap: (move: NormalizedMove) => boolean;
+  onOpenExternal: () => void;
+}
+
+function formatClock(milliseconds?: number): string {
+  if (milliseconds === undefined) return '-';
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  // Daily clocks run to days, which read better as "2d 5h" than as hours
+  if (totalSeconds >= 86400) return formatTimeSpent(milliseconds);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+function Arrow({ uci, flipped, color }: { uci: string; flipped: boolean; color: string }) {
+  const center = (square: number) => {
+    const file = square % 8;
+    const rank = Math.floor(square / 8);
+    return flipped
+      ? { x: 7 - file + 0.5, y: rank + 0.5 }
+      : { x: file + 0.5, y: 7 - rank + 0.5 };
+  };
+  const from = center(parseSquare(uci.slice(0, 2)));
+  const to = center(parseSquare(uci.slice(2, 4)));
+  const markerId = `arrowhead-${color.replace(/[^a-z0-9]/gi, '')}`;
+
+  return (
+    <svg viewBox="0 0 8 8" className="absolute inset-0 w-full h-full pointer-events-none">
+      <defs>
+        <marker id={markerId} markerWidth="4" markerHeight="4" refX="2" refY="2" orient="auto">
+          <path d="M0,0 L4,2 L0,4 z" fill={color} />
+        </marker>
+      </defs>
+      <line
+        x1={from.x}
+        y1={from.y}
+        x2={to.x}
+        y2={to.y}
+        stroke={color}
+        strokeWidth="0.18"
+        strokeLinecap="round"
+        markerEnd={`url(#${markerId})`}
+        opacity="0.85"
+      />
+    </svg>
+  );
+}
+
+function BoardViewer({ game, ply, isNap, onOpenExternal }: BoardViewerProps) {
+  // viewPly is the last move shown on the board; one less than the nap is "before the think"
+  const [viewPly, setViewPly] = useState(ply - 1);
+  const firstPly = game.moves.length > 0 ? game.moves[0].ply - 1 : 0;
+  const lastPly = game.moves.length > 0 ? game.moves[game.moves.length - 1].ply : 0;
+  const flipped = game.userColor === 'black';
+
+  const napMove = game.moves.find(move => move.ply === ply);
+  const shownMove = game.moves.find(move => move.ply === viewPly);
+  const fen = fenBefore(game, viewPly + 1) ?? shownMove?.fen;
+  const position = fen ? parseFEN(fen) : null;
+  const clocks = clocksAt(game, viewPly);
+
+  // Before the nap, preview the move about to be played; otherwise show the last move
+  const arrow = viewPly === ply - 1
+    ? napMove?.uci && { uci: napMove.uci, color: '#f87171' }
+    : shownMove?.uci && { uci: shownMove.uci, color: '#60a5fa' };
+
+  const stripMoves = game.moves.filter(move => Math.abs(move.ply - ply) <= CONTEXT_PLIES);
+  const topColor = flipped ? 'white' : 'black';
+  const bottomColor = flipped ? 'black' : 'white';
+  const playerName = (color: 'white' | 'black') => color === 'white' ? game.whitePlayer : game.blackPlayer;
+
+  const clockRow = (color: 'white' | 'black') => (
+    <div className="flex items-center justify-between px-2 py-1 text-sm">
+      <span className="text-gray-300">{playerName(color)}</span>
+      <span className="font-mono bg-gray-900 px-2 py-0.5 rounded">{formatClock(clocks[color])}</span>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6 p-4 bg-gray-900/40 rounded-xl">
+      <div className="w-full max-w-sm">
+        {clockRow(topColor)}
+        <div className="relative aspect-square w-full">
+          {position ? (
+            <div className="grid grid-cols-8 grid-rows-8 w-full h-full rounded overflow-hidden">
+              {Array.from({ length: 64 }, (_, index) => {
+                const row = Math.floor(index / 8);
+                const column = index % 8;
+                const square = flipped ? row * 8 + (7 - column) : (7 - row) * 8 + column;
+                const piece = position.board[square];
+                const isLight = (Math.floor(square / 8) + (square % 8)) % 2 === 1;
+                return (
+                  <div
+                    key={square}
+                    className={`flex items-center justify-center text-3xl leading-none select-none ${
+                      isLight ? 'bg-amber-100 text-gray-900' : 'bg-amber-700 text-gray-900'
+                    }`}
+                  >
+                    {piece && PIECE_GLYPHS[piece]}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="flex items-center justify-center w-full h-full bg-gray-800 rounded text-gray-400 text-sm text-center p-4">
+              {game.illegalMove ? `Position unavailable: ${game.illegalMove.reason}` : 'Position unavailable'}
+            </div>
+          )}
+          {position && arrow && <Arrow uci={arrow.uci} flipped={flipped} color={arrow.color} />}
+        </div>
+        {clockRow(bottomColor)}
+      </div>
+
+      <div className="flex-1 space-y-4">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setViewPly(firstPly)}
+            className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            <ChevronsLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setViewPly(Math.max(firstPly, viewPly - 1))}
+            className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setViewPly(ply - 1)}
+            className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+              viewPly === ply - 1 ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+          >
+            Before
+          </button>
+          <button
+            onClick={() => setViewPly(ply)}
+            className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+              viewPly === ply ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+          >
+            After
+          </button>
+          <button
+            onClick={() => setViewPly(Math.min(lastPly, viewPly + 1))}
+            className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setViewPly(lastPly)}
+            className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            <ChevronsRight className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1 font-mono text-sm">
+          {stripMoves.map(move => (
+            <button
+              key={move.ply}
+              onClick={() => setViewPly(move.ply)}
+              className={`px-2 py-1 rounded transition-colors ${
+                move.ply === viewPly
+                  ? 'bg-blue-600'
+                  : move.ply === ply
+                    ? 'bg-red-500/20 text-red-300 hover:bg-red-500/30'
+                    : 'hover:bg-gray-700'
+              }`}
+            >
+              {move.color === 'white' ? `${move.moveNumber}.` : `${move.moveNumber}...`}{move.san}
+            </button>
+          ))}
+        </div>
+
+        <ClockChart game={game} currentPly={viewPly} isNap={isNap} onSelectPly={setViewPly} />
+
+        <button
+          onClick={onOpenExternal}
+          className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+        >
+          <ExternalLink className="w-4 h-4" />
+          Open on {game.platform === 'pgn' ? 'Lichess analysis' : game.platform}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default BoardViewer;
@@ -1,118 +1,129 @@
-import React, { useState } from 'react';
-import { Brain, Clock, ChevronRight as ChessKnight, Search, Loader2, ExternalLink, ArrowUpDown } from 'lucide-react';
-import { format } from 'date-fns';
-import { fetchLichessGames, openLichessPosition } from '../lichess';
-import { fetchChessComGames, openChessComPosition } from '../chess-com';
-import { Link } from 'react-router-dom';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Users, Link2, Check } from 'lucide-react';
+import { Color, summarizeResults } from '../games';
+import { NapThreshold, clockKind, defaultNapThreshold, napDetector } from '../nap-threshold';
+import { DEFAULT_COLUMNS, DEFAULT_SORT, EMPTY_FILTERS, NapColumn, NapFilters, NapSort, matchesFilters, napRows, sortNapRows } from '../nap-table';
+import { gameSources } from '../sources';
+import { useGameSearch } from '../use-game-search';
+import GameSearchForm from './GameSearchForm';
+import ClockDashboard from './ClockDashboard';
+import OpeningNaps from './OpeningNaps';
+import NapThresholdInput from './NapThresholdInput';
+import GameList from './GameList';
+import ExportMenu from './ExportMenu';
+import NapTable from './NapTable';
+import NapFiltersBar from './NapFiltersBar';
+import ColumnMenu from './ColumnMenu';
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { readTrackerState, writeTrackerState } from '../search-params';
 
-type Platform = 'chess.com' | 'lichess.org';
-type GameResult = 'win' | 'loss' | 'draw';
-type GameType = 'blitz' | 'rapid' | 'classical' | 'all';
-type SortType = 'time' | 'date';
+type ViewType = 'moves' | 'openings' | 'games';
 
-interface Move {
-  move: string;
-  clockWhite?: string;
-  clockBlack?: string;
-  timeSpentWhite?: string;
-  timeSpentBlack?: string;
-  moveNumber: number;
-}
-
-interface Game {
-  id: string;
-  date: string;
-  whitePlayer: string;
-  blackPlayer: string;
-  result: GameResult;
-  rating: number;
-  gameType: string;
-  timeControl: string;
-  moves?: Move[];
-  clocks?: any[];
-  expanded?: boolean;
-  pgn?: string;
-  whiteMoves?: { moveNumber: number; move: string; time?: string }[];
-  blackMoves?: { moveNumber: number; move: string; time?: string }[];
-}
-
-function formatTimeSpent(seconds: string): string {
-  const totalSeconds = parseInt(seconds);
-  if (isNaN(totalSeconds)) return seconds;
-  
-  if (totalSeconds < 60) {
-    return `${totalSeconds}s`;
-  }
-  
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const remainingSeconds = totalSeconds % 60;
-  
-  if (hours > 0) {
-    return `${hours}:${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-  }
-  
-  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-}
-
-function formatMoveNotation(moveNumber: number, move: string, isWhite: boolean): string {
-  return isWhite ? `${moveNumber}.${move}` : `${moveNumber}...${move}`;
-}
+const VIEW_LABELS: Record<ViewType, string> = {
+  moves: 'Moves',
+  openings: 'Openings',
+  games: 'Games'
+};
+type ColorFilter = Color | 'all';
 
 function ChessNapTracker() {
-  const [minTimeFilter, setMinTimeFilter] = useState<number>(20);
-  const [username, setUsername] = useState('');
-  const [platform, setPlatform] = useState<Platform>('chess.com');
-  const [selectedGameType, setSelectedGameType] = useState<GameType>('all');
-  const [isLoading, setIsLoading] = useState(false);
-  const [games, setGames] = useState<Game[]>([]);
-  const [error, setError] = useState('');
-  const [startDate, setStartDate] = useState<string>(
-    new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+  const pathParams = useParams();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  // The link the page was opened with, read once so later edits don't fight the form
+  const [restored] = useState(() => readTrackerState(searchParams, pathParams));
+  // Left unset until the user picks one, so the default can follow the kind of games loaded
+  const [chosenThreshold, setNapThreshold] = useState<NapThreshold | undefined>(restored.napThreshold);
+  const [sortBy, setSortBy] = useState<NapSort>(restored.sortBy ?? DEFAULT_SORT);
+  const [view, setView] = useState<ViewType>('moves');
+  const [colorFilter, setColorFilter] = useState<ColorFilter>('all');
+  const [filters, setFilters] = useState<NapFilters>(EMPTY_FILTERS);
+  const [columns, setColumns] = useState<NapColumn[]>(DEFAULT_COLUMNS);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Set when the clipboard is unavailable, so the link is shown selected for copying by hand
+  const [manualLink, setManualLink] = useState<string | null>(null);
+  const search = useGameSearch(restored.search);
+  const { games } = search;
+  const fetchGamesRef = useRef(search.fetchGames);
+  // Daily games are measured in hours per move, so the default threshold follows the games' clocks
+  const clocks = useMemo(() => clockKind(games), [games]);
+  const napThreshold = useMemo(
+    () => chosenThreshold ?? defaultNapThreshold(clocks),
+    [chosenThreshold, clocks]
   );
-  const [endDate, setEndDate] = useState<string>(
-    new Date().toISOString().split('T')[0]
-  );
-  const [sortBy, setSortBy] = useState<SortType>('time');
 
-  const gameTypes = platform === 'lichess.org' 
-    ? ['all', 'blitz', 'rapid', 'classical'] as const
-    : ['all', 'blitz', 'rapid'] as const;
+  useEffect(() => {
+    fetchGamesRef.current = search.fetchGames;
+  });
 
-  const handleMoveClick = (gameId: string, moveNumber: number, platform: Platform) => {
-    if (platform === 'lichess.org') {
-      openLichessPosition(gameId, moveNumber);
-    } else if (platform === 'chess.com') {
-      openChessComPosition(gameId, moveNumber);
-    }
-  };
+  // A shared link names an account, so load it straight away
+  useEffect(() => {
+    if (restored.search.username) fetchGamesRef.current();
+  }, [restored]);
 
-  const fetchGames = async () => {
-    if (!username) {
-      setError('Please enter a username');
-      return;
-    }
+  // Mirror the form into the URL; the short account path is kept while it still matches
+  const query = writeTrackerState({
+    search: {
+      username: search.username.trim(),
+      platform: search.platform,
+      linkedUsername: search.linkedUsername.trim(),
+      gameType: search.gameType,
+      startDate: search.startDate,
+      endDate: search.endDate
+    },
+    napThreshold: chosenThreshold,
+    sortBy
+  });
+  const onAccountPath = pathParams.platform === search.platform && pathParams.username === query.get('user');
+  if (onAccountPath) {
+    query.delete('platform');
+    query.delete('user');
+  }
+  const pathname = onAccountPath ? location.pathname : '/nap-tracker';
+  const queryString = query.toString();
+  const urlSearch = queryString ? `?${queryString}` : '';
 
-    setIsLoading(true);
-    setError('');
-    setGames([]);
+  useEffect(() => {
+    if (location.pathname !== pathname || location.search !== urlSearch) {
+      navigate({ pathname, search: urlSearch }, { replace: true });
+    }
+  }, [location.pathname, location.search, pathname, urlSearch, navigate]);
 
+  const copyLink = async () => {
+    const link = `${window.location.origin}${pathname}${urlSearch}`;
     try {
-      const games = await (platform === 'chess.com' 
-        ? fetchChessComGames(username, startDate, endDate, selectedGameType)
-        : fetchLichessGames(username, selectedGameType, startDate, endDate));
-      
-      setGames(games);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch games. Please try again.');
-    } finally {
-      setIsLoading(false);
+      // navigator.clipboard is missing on insecure origins, and writeText rejects when permission is denied
+      await navigator.clipboard.writeText(link);
+      setManualLink(null);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      setManualLink(link);
     }
   };
 
-  const toggleSort = () => {
-    setSortBy(prev => prev === 'time' ? 'date' : 'time');
-  };
+  // Everything below only changes with the games, threshold, filters or sort, not on every keystroke
+  const visibleGames = useMemo(
+    () => colorFilter === 'all' ? games : games.filter(game => game.userColor === colorFilter),
+    [games, colorFilter]
+  );
+  const resultSummary = useMemo(() => summarizeResults(visibleGames), [visibleGames]);
+  const unreplayableCount = useMemo(() => visibleGames.filter(game => game.illegalMove).length, [visibleGames]);
+  const isNap = useMemo(() => napDetector(napThreshold), [napThreshold]);
+  const allNaps = useMemo(
+    () => napRows(visibleGames, isNap, napThreshold.mode),
+    [visibleGames, isNap, napThreshold.mode]
+  );
+  const filteredNaps = useMemo(() => allNaps.filter(row => matchesFilters(row, filters)), [allNaps, filters]);
+  const shownNaps = useMemo(() => sortNapRows(filteredNaps, sortBy), [filteredNaps, sortBy]);
+
+  // Per-site subtotals for a linked profile that loaded games from more than one platform
+  const platformTotals = useMemo(() => [...new Set(visibleGames.map(game => game.platform))].map(platform => ({
+    platform,
+    games: visibleGames.filter(game => game.platform === platform).length,
+    naps: allNaps.filter(row => row.game.platform === platform).length
+  })), [visibleGames, allNaps]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 to-gray-800 text-white">
@@ -124,7 +135,31 @@ function ChessNapTracker() {
               <span>Back to Tools</span>
             </Link>
             <h1 className="text-3xl font-bold">ChessNapTracker</h1>
-            <div className="w-24"></div>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={copyLink}
+                className="text-blue-400 hover:text-blue-300 flex items-center gap-2"
+                title="Copy a link to this search"
+              >
+                {linkCopied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+                <span>{linkCopied ? 'Copied!' : manualLink ? 'Copy failed, press Ctrl+C:' : 'Copy link'}</span>
+              </button>
+              {manualLink && (
+                <input
+                  type="text"
+                  readOnly
+                  autoFocus
+                  value={manualLink}
+                  onFocus={(e) => e.target.select()}
+                  onBlur={() => setManualLink(null)}
+                  className="w-64 px-3 py-1 bg-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              )}
+              <Link to="/club" className="text-blue-400 hover:text-blue-300 flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                <span>Compare Club</span>
+              </Link>
+            </div>
           </div>
         </div>
       </header>
@@ -133,233 +168,102 @@ function ChessNapTracker() {
         <div className="max-w-7xl mx-auto">
           <div className="bg-gray-800 rounded-2xl p-8 shadow-xl">
             <div className="space-y-8">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-                {/* First column */}
-                <div>
-                  <label className="block">
-                    <span className="text-gray-300 block mb-2">Username</span>
-                    <input
-                      type="text"
-                      value={username}
-                      onChange={(e) => setUsername(e.target.value)}
-                      placeholder="Enter your username"
-                      className="w-full px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                    />
-                  </label>
-                </div>
-                
-                {/* Second column */}
-                <div>
-                  <span className="text-gray-300 block mb-2">Platform</span>
-                  <div className="flex space-x-4">
-                    <button
-                      onClick={() => setPlatform('chess.com')}
-                      className={`flex-1 px-4 py-2 rounded-lg transition-all ${
-                        platform === 'chess.com'
-                          ? 'bg-blue-600 shadow-lg shadow-blue-500/30'
-                          : 'bg-gray-700 hover:bg-gray-600'
-                      }`}
-                    >
-                      Chess.com
-                    </button>
-                    <button
-                      onClick={() => setPlatform('lichess.org')}
-                      className={`flex-1 px-4 py-2 rounded-lg transition-all ${
-                        platform === 'lichess.org'
-                          ? 'bg-blue-600 shadow-lg shadow-blue-500/30'
-                          : 'bg-gray-700 hover:bg-gray-600'
-                      }`}
-                    >
-                      Lichess.org
-                    </button>
-                  </div>
-                </div>
-
-                {/* Date range row - spans full width */}
-                <div className="md:col-span-2">
-                  <div className="grid grid-cols-2 gap-4">
-                    <label className="block">
-                      <span className="text-gray-300 block mb-2">Start Date</span>
-                      <input
-                        type="date"
-                        value={startDate}
-                        onChange={(e) => setStartDate(e.target.value)}
-                        className="w-full px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                      />
-                    </label>
-                    <label className="block">
-                      <span className="text-gray-300 block mb-2">End Date</span>
-                      <input
-                        type="date"
-                        value={endDate}
-                        onChange={(e) => setEndDate(e.target.value)}
-                        className="w-full px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                      />
-                    </label>
-                  </div>
-                </div>
-              </div>
-
-              <div className="mb-8">
-                <span className="text-gray-300 block mb-2">Game Type</span>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                  {gameTypes.map((type) => (
-                    <button
-                      key={type}
-                      onClick={() => setSelectedGameType(type)}
-                      className={`px-4 py-2 rounded-lg transition-all ${
-                        selectedGameType === type
-                          ? 'bg-blue-600 shadow-lg shadow-blue-500/30'
-                          : 'bg-gray-700 hover:bg-gray-600'
-                      }`}
-                    >
-                      {type.charAt(0).toUpperCase() + type.slice(1)}
-                    </button>
-                  ))}
-                </div>
-              </div>
-
-              <div className="flex justify-center mb-8">
-                <button
-                  onClick={fetchGames}
-                  disabled={isLoading}
-                  className="flex items-center px-8 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                      Loading...
-                    </>
-                  ) : (
-                    <>
-                      <Search className="w-5 h-5 mr-2" />
-                      Wake Me Up
-                    </>
-                  )}
-                </button>
-              </div>
-
-              {error && (
-                <div className="text-red-400 text-center mb-6">{error}</div>
-              )}
+              <GameSearchForm search={search} actionLabel="Wake Me Up" />
 
               {games.length > 0 && (
                 <div className="space-y-6">
                   <div className="flex items-center justify-between mb-6">
                     <div>
                       <h3 className="text-xl font-semibold">The moves you spent most time on</h3>
+                      <p className="text-sm text-gray-400 mt-1">
+                        {visibleGames.length} games:{' '}
+                        <span className="text-green-400">{resultSummary.win} W</span>{' / '}
+                        <span className="text-red-400">{resultSummary.loss} L</span>{' / '}
+                        <span className="text-gray-300">{resultSummary.draw} D</span>
+                        {unreplayableCount > 0 && (
+                          <span className="text-yellow-400">
+                            {' '}· {unreplayableCount} with illegal or unreadable moves
+                          </span>
+                        )}
+                      </p>
+                      {platformTotals.length > 1 && (
+                        <p className="text-sm text-gray-400 mt-1">
+                          {platformTotals.map((total, index) => (
+                            <span key={total.platform}>
+                              {index > 0 && ' · '}
+                              {gameSources[total.platform].label}: {total.games} games, {total.naps} naps
+                            </span>
+                          ))}
+                        </p>
+                      )}
                     </div>
                     <div className="flex items-center gap-4">
-                      <button
-                        onClick={toggleSort}
-                        className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
-                      >
-                        <span>Sort by {sortBy === 'time' ? 'Time Spent' : 'Date'}</span>
-                        <ArrowUpDown className="w-4 h-4" />
-                      </button>
-                      <div className="flex items-center gap-2">
-                        <label className="text-sm text-gray-400">Min. Time (seconds):</label>
-                        <input
-                          type="number"
-                          value={minTimeFilter}
-                          onChange={(e) => setMinTimeFilter(Number(e.target.value))}
-                          className="w-24 px-3 py-1 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                        />
+                      <div className="flex rounded-lg overflow-hidden">
+                        {(Object.keys(VIEW_LABELS) as ViewType[]).map((option) => (
+                          <button
+                            key={option}
+                            onClick={() => setView(option)}
+                            className={`px-3 py-2 text-sm transition-colors ${
+                              view === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                            }`}
+                          >
+                            {VIEW_LABELS[option]}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="flex rounded-lg overflow-hidden">
+                        {(['all', 'white', 'black'] as const).map((color) => (
+                          <button
+                            key={color}
+                            onClick={() => setColorFilter(color)}
+                            className={`px-3 py-2 text-sm transition-colors ${
+                              colorFilter === color ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                            }`}
+                          >
+                            {color.charAt(0).toUpperCase() + color.slice(1)}
+                          </button>
+                        ))}
                       </div>
+                      {view === 'moves' && <ColumnMenu columns={columns} onChange={setColumns} />}
+                      <NapThresholdInput
+                        key={clocks}
+                        threshold={napThreshold}
+                        onChange={setNapThreshold}
+                      />
+                      <ExportMenu
+                        games={visibleGames}
+                        naps={shownNaps}
+                        isNap={isNap}
+                        fileName={`naps-${search.username.trim() || 'games'}`}
+                      />
                     </div>
                   </div>
 
-                  <div className="overflow-x-auto">
-                    <table className="w-full">
-                      <thead>
-                        <tr className="border-b border-gray-700">
-                          <th className="px-4 py-3 text-left">Date</th>
-                          <th className="px-4 py-3 text-left">Players</th>
-                          <th className="px-4 py-3 text-left">Time Control</th>
-                          <th className="px-4 py-3 text-left">Move</th>
-                          <th className="px-4 py-3 text-left">Time Spent</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {games
-                          .filter(game => game.moves || game.clocks)
-                          .flatMap(game => {
-                            const isWhite = game.whitePlayer.toLowerCase() === username.toLowerCase();
-                            
-                            if (platform === 'lichess.org' && game.moves) {
-                              return game.moves
-                                .filter((_, index) => isWhite ? index % 2 === 0 : index % 2 === 1)
-                                .map(move => ({
-                                  move: move.move,
-                                  timeSpent: isWhite ? move.timeSpentWhite : move.timeSpentBlack,
-                                  moveNumber: Math.floor(move.moveNumber),
-                                  isWhite,
-                                  linkMoveNumber: isWhite ? move.moveNumber * 2 - 1 : move.moveNumber * 2,
-                                  date: game.date,
-                                  players: `${game.whitePlayer} vs ${game.blackPlayer}`,
-                                  timeControl: game.timeControl,
-                                  gameId: game.id
-                                }))
-                                .filter(move => move.timeSpent && parseInt(move.timeSpent) >= minTimeFilter);
-                            } else if (game.clocks) {
-                              return game.clocks
-                                .filter(clock => clock.isWhite === isWhite)
-                                .map(clock => ({
-                                  move: clock.moveText,
-                                  timeSpent: clock.timeSpent,
-                                  moveNumber: clock.moveNumber,
-                                  isWhite,
-                                  linkMoveNumber: isWhite ? clock.moveNumber * 2 - 1 : clock.moveNumber * 2,
-                                  date: game.date,
-                                  players: `${game.whitePlayer} vs ${game.blackPlayer}`,
-                                  timeControl: game.timeControl,
-                                  gameId: game.id
-                                }))
-                                .filter(clock => clock.timeSpent && parseInt(clock.timeSpent) >= minTimeFilter);
-                            }
-                            return [];
-                          })
-                          .sort((a, b) => {
-                            if (sortBy === 'time') {
-                              return parseInt(b.timeSpent!) - parseInt(a.timeSpent!);
-                            } else {
-                              return new Date(b.date).getTime() - new Date(a.date).getTime();
-                            }
-                          })
-                          .map((highlight, index) => (
-                            <tr 
-                              key={`${highlight.gameId}-${highlight.moveNumber}`} 
-                              className="border-b border-gray-700/50 hover:bg-gray-700/30 cursor-pointer"
-                              onClick={() => handleMoveClick(highlight.gameId, highlight.linkMoveNumber, platform)}
-                            >
-                              <td className="px-4 py-3">
-                                {format(new Date(highlight.date), 'MMM d, yyyy')}
-                              </td>
-                              <td className="px-4 py-3">
-                                {highlight.players}
-                              </td>
-                              <td className="px-4 py-3">
-                                {highlight.timeControl}
-                              </td>
-                              <td className="px-4 py-3">
-                                <div className="flex items-center gap-1">
-                                  <span className="font-mono">
-                                    {formatMoveNotation(highlight.moveNumber, highlight.move, highlight.isWhite)}
-                                  </span>
-                                  <ExternalLink className="w-3 h-3 opacity-50" />
-                                </div>
-                              </td>
-                              <td className="px-4 py-3">
-                                <span className="flex items-center gap-1 text-red-400">
-                                  <Clock className="w-4 h-4" />
-                                  {formatTimeSpent(highlight.timeSpent!)}
-                                </span>
-                              </td>
-                            </tr>
-                          ))}
-                      </tbody>
-                    </table>
-                  </div>
+                  <ClockDashboard games={visibleGames} />
+
+                  {view === 'openings' ? (
+                    <OpeningNaps games={visibleGames} isNap={isNap} />
+                  ) : view === 'games' ? (
+                    <GameList games={visibleGames} isNap={isNap} />
+                  ) : (
+                    <div className="space-y-4">
+                      <NapFiltersBar filters={filters} onChange={setFilters} />
+                      {shownNaps.length < allNaps.length && (
+                        <p className="text-sm text-gray-400">
+                          Showing {shownNaps.length} of {allNaps.length} naps
+                        </p>
+                      )}
+                      <NapTable
+                        rows={shownNaps}
+                        sort={sortBy}
+                        onSortChange={setSortBy}
+                        columns={columns}
+                        napThreshold={napThreshold}
+                        isNap={isNap}
+                        showPlatform={platformTotals.length > 1}
+                      />
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -0,0 +1,134 @@
+import { Color, NormalizedGame, NormalizedMove } from '../games';
+import { formatTimeSpent } from '../format';
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 10, right: 12, bottom: 24, left: 44 };
+// Think-time spikes share the bottom of the plot with the clock lines
+const SPIKE_BAND = 0.3;
+
+const LINE_COLORS: Record<Color, string> = {
+  white: '#e5e7eb',
+  black: '#60a5fa'
+};
+
+interface ClockChartProps {
+  game: NormalizedGame;
+  // Last ply shown on the board, highlighted on the chart
+  currentPly: number;
+  isNap: (move: NormalizedMove) => boolean;
+  onSelectPly: (ply: number) => void;
+}
+
+function formatAxisClock(milliseconds: number): string {
+  // Hours and days, for long and daily games
+  if (milliseconds >= 3600 * 1000) return formatTimeSpent(milliseconds);
+  const totalSeconds = Math.round(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  return minutes > 0 ? `${minutes}:${(totalSeconds % 60).toString().padStart(2, '0')}` : `${totalSeconds}s`;
+}
+
+// Both players' remaining time by ply, with each move's think time drawn as a spike underneath
+function ClockChart({ game, currentPly, isNap, onSelectPly }: ClockChartProps) {
+  const clocked = game.moves.filter(move => move.clock !== undefined);
+  if (clocked.length < 2) return null;
+
+  const firstPly = game.moves[0].ply - 1;
+  const lastPly = game.moves[game.moves.length - 1].ply;
+  const maxClock = Math.max(game.clock?.initial ?? 0, ...clocked.map(move => move.clock!));
+  const maxThink = Math.max(1, ...game.moves.map(move => move.thinkTime ?? 0));
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const bottom = PADDING.top + plotHeight;
+  const x = (ply: number) => PADDING.left + ((ply - firstPly) / Math.max(1, lastPly - firstPly)) * plotWidth;
+  const y = (clock: number) => bottom - (clock / maxClock) * plotHeight;
+
+  const series = (color: Color) => {
+    const points = clocked
+      .filter(move => move.color === color)
+      .map(move => ({ ply: move.ply, clock: move.clock! }));
+    // Both clocks start full before the first move when the time control is known
+    return game.clock ? [{ ply: firstPly, clock: game.clock.initial }, ...points] : points;
+  };
+
+  const moveTicks = game.moves.filter(move => move.color === 'white' && move.moveNumber % 10 === 0);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full bg-gray-900/40 rounded-lg">
+      {[0, 0.5, 1].map((share) => (
+        <text
+          key={share}
+          x={PADDING.left - 6}
+          y={y(maxClock * share) + 3}
+          textAnchor="end"
+          className="fill-gray-400 text-[10px]"
+        >
+          {formatAxisClock(maxClock * share)}
+        </text>
+      ))}
+      {moveTicks.map((move) => (
+        <text
+          key={move.ply}
+          x={x(move.ply)}
+          y={CHART_HEIGHT - 8}
+          textAnchor="middle"
+          className="fill-gray-400 text-[10px]"
+        >
+          {move.moveNumber}
+        </text>
+      ))}
+
+      <line x1={x(currentPly)} x2={x(currentPly)} y1={PADDING.top} y2={bottom} stroke="#4b5563" />
+
+      {game.moves
+        .filter(move => move.thinkTime !== undefined)
+        .map((move) => {
+          const nap = move.color === game.userColor && isNap(move);
+          return (
+            <line
+              key={`spike-${move.ply}`}
+              x1={x(move.ply)}
+              x2={x(move.ply)}
+              y1={bottom}
+              y2={bottom - (move.thinkTime! / maxThink) * plotHeight * SPIKE_BAND}
+              stroke={nap ? '#f87171' : '#6b7280'}
+              strokeWidth={nap ? 3 : 1.5}
+              className="cursor-pointer"
+              onClick={() => onSelectPly(move.ply)}
+            >
+              <title>{`${move.moveNumber}${move.color === 'white' ? '.' : '...'}${move.san}: ${formatTimeSpent(move.thinkTime!)}`}</title>
+            </line>
+          );
+        })}
+
+      {(['white', 'black'] as const).map((color) => {
+        const points = series(color);
+        return (
+          <g key={color}>
+            <polyline
+              points={points.map(point => `${x(point.ply)},${y(point.clock)}`).join(' ')}
+              fill="none"
+              stroke={LINE_COLORS[color]}
+              strokeWidth="1.5"
+            />
+            {points.filter(point => point.ply > firstPly).map((point) => (
+              <circle
+                key={point.ply}
+                cx={x(point.ply)}
+                cy={y(point.clock)}
+                r={point.ply === currentPly ? 4 : 2.5}
+                fill={LINE_COLORS[color]}
+                className="cursor-pointer"
+                onClick={() => onSelectPly(point.ply)}
+              >
+                <title>{`${color === 'white' ? game.whitePlayer : game.blackPlayer}: ${formatAxisClock(point.clock)}`}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default ClockChart;
@@ -0,0 +1,118 @@
+import { useMemo, useState } from 'react';
+import { NormalizedGame } from '../games';
+import { ClockComparison, GAME_PHASES, LOW_CLOCK_SHARE, clockStatsByTimeControl } from '../clock-stats';
+import { formatOptionalTime } from '../format';
+
+interface ClockDashboardProps {
+  games: NormalizedGame[];
+}
+
+interface ComparisonRow extends ClockComparison {
+  label: string;
+  note?: string;
+}
+
+function percentage(count: number, total: number): string {
+  return total > 0 ? `${Math.round((count / total) * 100)}%` : '-';
+}
+
+// Paired horizontal bars, you against your opponents, scaled to the largest value in the chart
+function ComparisonChart({ title, rows }: { title: string; rows: ComparisonRow[] }) {
+  const max = Math.max(1, ...rows.flatMap(row => [row.user ?? 0, row.opponent ?? 0]));
+  const bar = (value: number | undefined, color: string) => (
+    <div className="flex items-center gap-2">
+      <div className="flex-1 h-3 bg-gray-900/60 rounded">
+        <div className={`h-3 rounded ${color}`} style={{ width: `${((value ?? 0) / max) * 100}%` }} />
+      </div>
+      <span className="w-16 text-right font-mono text-xs text-gray-300">{formatOptionalTime(value)}</span>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold">{title}</h4>
+      {rows.map((row) => (
+        <div key={row.label} className="grid grid-cols-[7rem_1fr] gap-3 items-center">
+          <div className="text-sm text-gray-400">
+            {row.label}
+            {row.note && <span className="block text-xs text-gray-500">{row.note}</span>}
+          </div>
+          <div className="space-y-1">
+            {bar(row.user, 'bg-blue-500')}
+            {bar(row.opponent, 'bg-gray-500')}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ClockDashboard({ games }: ClockDashboardProps) {
+  const stats = useMemo(() => clockStatsByTimeControl(games), [games]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const current = stats.find(entry => entry.timeControl === selected) ?? stats[0];
+
+  if (!current) return null;
+
+  return (
+    <div className="space-y-6 p-6 bg-gray-900/40 rounded-xl">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold">Clock management</h3>
+        <div className="flex flex-wrap gap-2">
+          {stats.map((entry) => (
+            <button
+              key={entry.timeControl}
+              onClick={() => setSelected(entry.timeControl)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                entry === current ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+            >
+              {entry.timeControl} <span className="text-gray-300">({entry.games})</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="px-4 py-3 bg-gray-800 rounded-lg">
+          <p className="text-2xl font-bold text-yellow-300">{percentage(current.lowClockGames, current.clockedGames)}</p>
+          <p className="text-sm text-gray-400">
+            of games you dropped below {LOW_CLOCK_SHARE * 100}% of your starting time
+          </p>
+        </div>
+        <div className="px-4 py-3 bg-gray-800 rounded-lg">
+          <p className="text-2xl font-bold text-red-300">
+            {current.timeLosses}
+            <span className="text-sm font-normal text-gray-400"> ({percentage(current.timeLosses, current.games)})</span>
+          </p>
+          <p className="text-sm text-gray-400">losses on time</p>
+        </div>
+        <div className="px-4 py-3 bg-gray-800 rounded-lg flex items-center gap-4 text-sm">
+          <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-blue-500" />You</span>
+          <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-gray-500" />Opponents</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <ComparisonChart
+          title="Average time per move"
+          rows={GAME_PHASES.map(phase => ({
+            label: phase.charAt(0).toUpperCase() + phase.slice(1),
+            ...current.phases[phase]
+          }))}
+        />
+        <ComparisonChart
+          title="Clock left"
+          rows={current.checkpoints.map(checkpoint => ({
+            label: `After move ${checkpoint.moveNumber}`,
+            note: `${checkpoint.games} games`,
+            user: checkpoint.user,
+            opponent: checkpoint.opponent
+          }))}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default ClockDashboard;
@@ -0,0 +1,368 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowUpDown, ExternalLink, Loader2, Plus, Search, Trash2, Users, X } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { GAME_TYPES, GameType, Platform } from '../games';
+import { gameSources } from '../sources';
+import { PlayerLoad, PlayerRef, loadPlayers, playerKey } from '../club';
+import { PlayerMetric, PlayerNapStats, playerNapStats } from '../player-stats';
+import { NapThreshold, clockKind, defaultNapThreshold, describeNapThreshold, napDetector } from '../nap-threshold';
+import { formatOptionalTime, formatTimeSpent } from '../format';
+import NapThresholdInput from './NapThresholdInput';
+
+// Platforms that can be loaded by username; file sources need a picker per player
+const ACCOUNT_SOURCES = Object.values(gameSources).filter(source => source.input === 'username');
+
+const METRICS: { key: PlayerMetric; label: string; format: (stats: PlayerNapStats) => string }[] = [
+  { key: 'games', label: 'Games', format: stats => `${stats.games}` },
+  { key: 'naps', label: 'Naps', format: stats => `${stats.naps}` },
+  { key: 'napRate', label: 'Naps / Game', format: stats => stats.napRate.toFixed(2) },
+  { key: 'averageThink', label: 'Avg. Think', format: stats => formatOptionalTime(stats.averageThink) },
+  { key: 'longestThink', label: 'Longest Think', format: stats => formatOptionalTime(stats.longestThink) },
+  { key: 'timeLossRate', label: 'Lost on Time', format: stats => `${Math.round(stats.timeLossRate * 100)}%` }
+];
+
+// How many of the club's longest naps the combined table lists
+const COMBINED_NAP_LIMIT = 100;
+
+function ClubComparison() {
+  const [players, setPlayers] = useState<PlayerRef[]>([{ platform: 'chess.com', username: '' }]);
+  const [gameType, setGameType] = useState<GameType>('all');
+  const [startDate, setStartDate] = useState<string>(
+    new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+  );
+  const [endDate, setEndDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [loads, setLoads] = useState<PlayerLoad[]>([]);
+  const [pending, setPending] = useState<string[]>([]);
+  const [chosenThreshold, setNapThreshold] = useState<NapThreshold>();
+  const [sortMetric, setSortMetric] = useState<PlayerMetric>('napRate');
+  const [sortDescending, setSortDescending] = useState(true);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Until the user picks a threshold, it follows the clocks the club's games were played on
+  const clocks = clockKind(loads.flatMap(load => load.games));
+  const napThreshold = chosenThreshold ?? defaultNapThreshold(clocks);
+  const isNap = napDetector(napThreshold);
+  const isLoading = pending.length > 0;
+  // Only offer game types every listed platform can filter by
+  const gameTypes = useMemo(() => GAME_TYPES.filter(type =>
+    players.every(player => gameSources[player.platform].gameTypes.includes(type))
+  ), [players]);
+
+  // Adding a player from a platform with fewer speeds can drop the selected one
+  useEffect(() => {
+    if (!gameTypes.includes(gameType)) setGameType('all');
+  }, [gameTypes, gameType]);
+
+  const updatePlayer = (index: number, update: Partial<PlayerRef>) => {
+    setPlayers(players.map((player, i) => i === index ? { ...player, ...update } : player));
+  };
+
+  const loadClub = async () => {
+    const targets = players
+      .map(player => ({ ...player, username: player.username.trim() }))
+      .filter((player, index, all) =>
+        player.username && all.findIndex(other => playerKey(other) === playerKey(player)) === index
+      );
+    if (targets.length === 0) return;
+
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setLoads([]);
+    setPending(targets.map(playerKey));
+
+    try {
+      await loadPlayers(targets, { gameType, startDate, endDate }, {
+        signal: controller.signal,
+        onPlayerLoaded: (load) => {
+          if (controller.signal.aborted) return;
+          setLoads(prev => [...prev, load]);
+          setPending(prev => prev.filter(key => key !== playerKey(load.player)));
+        }
+      });
+    } catch {
+      // Only an abort gets here; per-player failures are reported on each load
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setPending([]);
+      }
+    }
+  };
+
+  const cancelLoad = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setPending([]);
+  };
+
+  const toggleSort = (metric: PlayerMetric) => {
+    if (metric === sortMetric) {
+      setSortDescending(!sortDescending);
+    } else {
+      setSortMetric(metric);
+      setSortDescending(true);
+    }
+  };
+
+  const leaderboard = loads
+    .filter(load => !load.error)
+    .map(load => ({ load, stats: playerNapStats(load.games, isNap) }))
+    .sort((a, b) => {
+      const difference = (a.stats[sortMetric] ?? 0) - (b.stats[sortMetric] ?? 0);
+      return sortDescending ? -difference : difference;
+    });
+
+  const combinedNaps = loads
+    .flatMap(load => load.games.flatMap(game => game.moves
+      .filter(move => move.color === game.userColor && isNap(game, move))
+      .map(move => ({ player: load.player, game, move }))
+    ))
+    .sort((a, b) => b.move.thinkTime! - a.move.thinkTime!)
+    .slice(0, COMBINED_NAP_LIMIT);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 to-gray-800 text-white">
+      <header className="bg-black/30 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between">
+            <Link to="/nap-tracker" className="text-blue-400 hover:text-blue-300 flex items-center gap-2">
+              <span>←</span>
+              <span>Back to Tracker</span>
+            </Link>
+            <h1 className="text-3xl font-bold">Club Comparison</h1>
+            <div className="w-24"></div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="bg-gray-800 rounded-2xl p-8 shadow-xl">
+            <div className="space-y-8">
+              <div className="space-y-3">
+                <span className="text-gray-300 block">Players</span>
+                {players.map((player, index) => (
+                  <div key={index} className="flex gap-3">
+                    <select
+                      value={player.platform}
+                      onChange={(e) => updatePlayer(index, { platform: e.target.value as Platform })}
+                      className="px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                      {ACCOUNT_SOURCES.map((source) => (
+                        <option key={source.platform} value={source.platform}>{source.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={player.username}
+                      onChange={(e) => updatePlayer(index, { username: e.target.value })}
+                      placeholder="Username"
+                      className="flex-1 px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    <button
+                      onClick={() => setPlayers(players.filter((_, i) => i !== index))}
+                      disabled={players.length === 1}
+                      className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50"
+                      title="Remove player"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setPlayers([...players, { platform: players[players.length - 1].platform, username: '' }])}
+                  className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add player
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-gray-300 block mb-2">Start Date</span>
+                  <input
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-gray-300 block mb-2">End Date</span>
+                  <input
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                </label>
+              </div>
+
+              <div>
+                <span className="text-gray-300 block mb-2">Game Type</span>
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+                  {gameTypes.map((type) => (
+                    <button
+                      key={type}
+                      onClick={() => setGameType(type)}
+                      className={`px-4 py-2 rounded-lg transition-all ${
+                        gameType === type
+                          ? 'bg-blue-600 shadow-lg shadow-blue-500/30'
+                          : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    >
+                      {type.charAt(0).toUpperCase() + type.slice(1)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-center gap-4">
+                <button
+                  onClick={loadClub}
+                  disabled={isLoading}
+                  className="flex items-center px-8 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      {pending.length} players left...
+                    </>
+                  ) : (
+                    <>
+                      <Search className="w-5 h-5 mr-2" />
+                      Compare Players
+                    </>
+                  )}
+                </button>
+                {isLoading && (
+                  <button
+                    onClick={cancelLoad}
+                    className="flex items-center px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                  >
+                    <X className="w-5 h-5 mr-2" />
+                    Cancel
+                  </button>
+                )}
+              </div>
+
+              {loads.filter(load => load.error || load.missingMonths.length > 0).map((load) => (
+                <div
+                  key={playerKey(load.player)}
+                  className={`px-4 py-2 rounded-lg text-sm ${
+                    load.error ? 'bg-red-500/10 text-red-300' : 'bg-yellow-500/10 text-yellow-300'
+                  }`}
+                >
+                  <span className="font-semibold">{load.player.username}: </span>
+                  {load.error || `Incomplete, missing ${load.missingMonths.join(', ')}`}
+                </div>
+              ))}
+
+              {leaderboard.length > 0 && (
+                <div className="space-y-6">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-xl font-semibold flex items-center gap-2">
+                      <Users className="w-5 h-5 text-blue-400" />
+                      Leaderboard
+                    </h3>
+                    <NapThresholdInput key={clocks} threshold={napThreshold} onChange={setNapThreshold} />
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-700">
+                          <th className="px-4 py-3 text-left">#</th>
+                          <th className="px-4 py-3 text-left">Player</th>
+                          {METRICS.map((metric) => (
+                            <th key={metric.key} className="px-4 py-3 text-right">
+                              <button
+                                onClick={() => toggleSort(metric.key)}
+                                className={`inline-flex items-center gap-1 ${
+                                  sortMetric === metric.key ? 'text-blue-400' : 'hover:text-gray-300'
+                                }`}
+                              >
+                                {metric.label}
+                                <ArrowUpDown className="w-3 h-3" />
+                              </button>
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {leaderboard.map(({ load, stats }, index) => (
+                          <tr key={playerKey(load.player)} className="border-b border-gray-700/50 hover:bg-gray-700/30">
+                            <td className="px-4 py-3 text-gray-400">{index + 1}</td>
+                            <td className="px-4 py-3">
+                              {load.player.username}
+                              <span className="ml-2 text-xs text-gray-500">{gameSources[load.player.platform].label}</span>
+                            </td>
+                            {METRICS.map((metric) => (
+                              <td key={metric.key} className="px-4 py-3 text-right font-mono">
+                                {metric.format(stats)}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div>
+                    <h3 className="text-xl font-semibold">Longest naps in the club</h3>
+                    <p className="text-sm text-gray-400 mt-1">Naps: {describeNapThreshold(napThreshold)}</p>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-700">
+                          <th className="px-4 py-3 text-left">Player</th>
+                          <th className="px-4 py-3 text-left">Date</th>
+                          <th className="px-4 py-3 text-left">Opponent</th>
+                          <th className="px-4 py-3 text-left">Move</th>
+                          <th className="px-4 py-3 text-left">Time Spent</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {combinedNaps.map(({ player, game, move }) => (
+                          <tr key={`${playerKey(player)}-${game.id}-${move.ply}`} className="border-b border-gray-700/50 hover:bg-gray-700/30">
+                            <td className="px-4 py-3">{player.username}</td>
+                            <td className="px-4 py-3">{format(new Date(game.date), 'MMM d, yyyy')}</td>
+                            <td className="px-4 py-3">{game.userColor === 'white' ? game.blackPlayer : game.whitePlayer}</td>
+                            <td className="px-4 py-3">
+                              <div className="flex items-center gap-1">
+                                <span className="font-mono">
+                                  {move.color === 'white' ? `${move.moveNumber}.` : `${move.moveNumber}...`}{move.san}
+                                </span>
+                                <button
+                                  onClick={() => gameSources[game.platform].openPosition(game, move.ply)}
+                                  className="p-1 opacity-50 hover:opacity-100 transition-opacity"
+                                  title="Open on the source site"
+                                >
+                                  <ExternalLink className="w-3 h-3" />
+                                </button>
+                              </div>
+                            </td>
+                            <td className="px-4 py-3 text-red-400">{formatTimeSpent(move.thinkTime!)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default ClubComparison;
@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { ChevronDown, Columns3 } from 'lucide-react';
+import { NapColumn, OPTIONAL_COLUMNS } from '../nap-table';
+
+interface ColumnMenuProps {
+  columns: NapColumn[];
+  onChange: (columns: NapColumn[]) => void;
+}
+
+// Show or hide the nap table's optional columns
+function ColumnMenu({ columns, onChange }: ColumnMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggle = (column: NapColumn) => {
+    onChange(columns.includes(column) ? columns.filter(other => other !== column) : [...columns, column]);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+      >
+        <Columns3 className="w-4 h-4" />
+        <span>Columns</span>
+        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-48 py-1 bg-gray-700 rounded-lg shadow-xl z-20">
+          {OPTIONAL_COLUMNS.map((column) => (
+            <label key={column.key} className="flex items-center gap-2 px-4 py-2 text-sm hover:bg-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={columns.includes(column.key)}
+                onChange={() => toggle(column.key)}
+              />
+              {column.label}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ColumnMenu;
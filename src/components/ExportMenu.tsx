@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { ChevronDown, Download } from 'lucide-react';
+import { NormalizedGame, NormalizedMove } from '../games';
+import { downloadFile, gamesToAnnotatedPgn, gamesToJson, napsToCsv } from '../export';
+
+interface ExportMenuProps {
+  games: NormalizedGame[];
+  naps: { game: NormalizedGame; ply: number }[];
+  isNap: (game: NormalizedGame, move: NormalizedMove) => boolean;
+  // File name without extension
+  fileName: string;
+}
+
+function ExportMenu({ games, naps, isNap, fileName }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const options = [
+    {
+      label: 'Naps as CSV',
+      export: () => downloadFile(`${fileName}.csv`, napsToCsv(naps), 'text/csv')
+    },
+    {
+      label: 'Games as JSON',
+      export: () => downloadFile(`${fileName}.json`, gamesToJson(games), 'application/json')
+    },
+    {
+      label: 'Annotated PGN',
+      export: () => downloadFile(`${fileName}.pgn`, gamesToAnnotatedPgn(games, isNap), 'application/x-chess-pgn')
+    }
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+      >
+        <Download className="w-4 h-4" />
+        <span>Export</span>
+        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-48 py-1 bg-gray-700 rounded-lg shadow-xl z-10">
+          {options.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => {
+                option.export();
+                setIsOpen(false);
+              }}
+              className="block w-full px-4 py-2 text-left text-sm hover:bg-gray-600 transition-colors"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,128 @@
+import { Fragment, useMemo, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { format } from 'date-fns';
+import { NormalizedGame, NormalizedMove } from '../games';
+import { gameSources } from '../sources';
+import { formatOptionalTime } from '../format';
+import { useVirtualRows } from '../use-virtual-rows';
+import BoardViewer from './BoardViewer';
+
+interface GameListProps {
+  games: NormalizedGame[];
+  isNap: (game: NormalizedGame, move: NormalizedMove) => boolean;
+}
+
+// Estimates for the virtual scroller, as in the nap table
+const ROW_HEIGHT = 52;
+const EXPANDED_HEIGHT = 640;
+const COLUMN_COUNT = 6;
+
+const RESULT_STYLES = {
+  win: 'text-green-400',
+  loss: 'text-red-400',
+  draw: 'text-gray-300'
+};
+
+// The clock chart needs at least two clock readings to draw a line
+function hasClockData(game: NormalizedGame): boolean {
+  return game.moves.filter(move => move.clock !== undefined).length >= 2;
+}
+
+// The player's longest think, where the board opens when a game is expanded
+function longestThink(game: NormalizedGame): NormalizedMove | undefined {
+  return game.moves
+    .filter(move => move.color === game.userColor && move.thinkTime !== undefined)
+    .reduce<NormalizedMove | undefined>((longest, move) =>
+      !longest || move.thinkTime! > longest.thinkTime! ? move : longest, undefined);
+}
+
+// Every game in the search, each opening onto its board and clock chart
+function GameList({ games, isNap }: GameListProps) {
+  const [expandedGame, setExpandedGame] = useState<string | null>(null);
+
+  const rows = useMemo(() => games.map(game => ({
+    game,
+    key: `${game.platform}-${game.id}`,
+    naps: game.moves.filter(move => move.color === game.userColor && isNap(game, move)).length,
+    longest: longestThink(game),
+    clocked: hasClockData(game)
+  })), [games, isNap]);
+
+  const expandedIndex = useMemo(() => rows.findIndex(row => row.key === expandedGame), [rows, expandedGame]);
+  const { containerRef, onScroll, start, end, paddingTop, paddingBottom } = useVirtualRows(rows.length, {
+    rowHeight: ROW_HEIGHT,
+    expandedIndex: expandedIndex >= 0 ? expandedIndex : undefined,
+    expandedHeight: EXPANDED_HEIGHT
+  });
+
+  return (
+    <div ref={containerRef} onScroll={onScroll} className="overflow-auto max-h-[70vh]">
+      <table className="w-full">
+        <thead className="sticky top-0 z-10 bg-gray-800">
+          <tr className="border-b border-gray-700">
+            <th className="px-4 py-3 text-left">Date</th>
+            <th className="px-4 py-3 text-left">Players</th>
+            <th className="px-4 py-3 text-left">Result</th>
+            <th className="px-4 py-3 text-left">Time Control</th>
+            <th className="px-4 py-3 text-left">Naps</th>
+            <th className="px-4 py-3 text-left">Longest Think</th>
+          </tr>
+        </thead>
+        <tbody>
+          {paddingTop > 0 && <tr style={{ height: paddingTop }}><td colSpan={COLUMN_COUNT} /></tr>}
+          {rows.slice(start, end).map(({ game, key, naps, longest, clocked }) => {
+            const expanded = expandedGame === key;
+            const focusPly = longest?.ply ?? game.moves[0]?.ply;
+
+            return (
+              <Fragment key={key}>
+                <tr
+                  className={`border-b border-gray-700/50 ${
+                    clocked ? 'hover:bg-gray-700/30 cursor-pointer' : 'text-gray-400'
+                  } ${expanded ? 'bg-gray-700/30' : ''}`}
+                  onClick={() => clocked && setExpandedGame(expanded ? null : key)}
+                  title={clocked ? undefined : 'No clock data for this game'}
+                >
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-1">
+                      <ChevronDown
+                        className={`w-4 h-4 transition-transform ${clocked ? 'opacity-50' : 'opacity-0'} ${
+                          expanded ? 'rotate-180' : ''
+                        }`}
+                      />
+                      {format(new Date(game.date), 'MMM d, yyyy')}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">
+                    {game.whitePlayer} vs {game.blackPlayer}
+                  </td>
+                  <td className={`px-4 py-3 ${RESULT_STYLES[game.result]}`}>
+                    {game.result.charAt(0).toUpperCase() + game.result.slice(1)}
+                  </td>
+                  <td className="px-4 py-3">{game.timeControl}</td>
+                  <td className="px-4 py-3 font-mono">{naps}</td>
+                  <td className="px-4 py-3 font-mono">{formatOptionalTime(longest?.thinkTime)}</td>
+                </tr>
+                {expanded && (
+                  <tr className="border-b border-gray-700/50">
+                    <td colSpan={COLUMN_COUNT} className="px-4 py-4">
+                      <BoardViewer
+                        game={game}
+                        ply={focusPly}
+                        isNap={(candidate) => isNap(game, candidate)}
+                        onOpenExternal={() => gameSources[game.platform].openPosition(game, focusPly)}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+          {paddingBottom > 0 && <tr style={{ height: paddingBottom }}><td colSpan={COLUMN_COUNT} /></tr>}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default GameList;
@@ -0,0 +1,197 @@
+import { Search, Loader2, X, AlertTriangle, Trash2, RotateCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { gameSources } from '../sources';
+import { GameSearch } from '../use-game-search';
+import PgnFilePicker from './PgnFilePicker';
+
+interface GameSearchFormProps {
+  search: GameSearch;
+  actionLabel: string;
+}
+
+function GameSearchForm({ search, actionLabel }: GameSearchFormProps) {
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        {/* First column */}
+        <div>
+          {search.source.input === 'file' ? (
+            <PgnFilePicker
+              file={search.pgnFile}
+              players={search.pgnPlayers}
+              username={search.username}
+              onFileChange={search.changePgnFile}
+              onUsernameChange={search.setUsername}
+            />
+          ) : (
+            <div className="space-y-3">
+              <label className="block">
+                <span className="text-gray-300 block mb-2">Username</span>
+                <input
+                  type="text"
+                  value={search.username}
+                  onChange={(e) => search.setUsername(e.target.value)}
+                  placeholder="Enter your username"
+                  className="w-full px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </label>
+              {search.linkedPlatform && (
+                <label className="block">
+                  <span className="text-gray-400 text-sm block mb-1">
+                    Also on {gameSources[search.linkedPlatform].label}? (optional)
+                  </span>
+                  <input
+                    type="text"
+                    value={search.linkedUsername}
+                    onChange={(e) => search.setLinkedUsername(e.target.value)}
+                    placeholder={`Your ${gameSources[search.linkedPlatform].label} username`}
+                    className="w-full px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+        
+        {/* Second column */}
+        <div>
+          <span className="text-gray-300 block mb-2">Platform</span>
+          <div className="flex space-x-4">
+            {Object.values(gameSources).map((adapter) => (
+              <button
+                key={adapter.platform}
+                onClick={() => search.setPlatform(adapter.platform)}
+                className={`flex-1 px-4 py-2 rounded-lg transition-all ${
+                  search.platform === adapter.platform
+                    ? 'bg-blue-600 shadow-lg shadow-blue-500/30'
+                    : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+              >
+                {adapter.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Date range row - spans full width */}
+        <div className="md:col-span-2">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-gray-300 block mb-2">Start Date</span>
+              <input
+                type="date"
+                value={search.startDate}
+                onChange={(e) => search.setStartDate(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-300 block mb-2">End Date</span>
+              <input
+                type="date"
+                value={search.endDate}
+                onChange={(e) => search.setEndDate(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-8">
+        <span className="text-gray-300 block mb-2">Game Type</span>
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+          {search.gameTypes.map((type) => (
+            <button
+              key={type}
+              onClick={() => search.setGameType(type)}
+              className={`px-4 py-2 rounded-lg transition-all ${
+                search.gameType === type
+                  ? 'bg-blue-600 shadow-lg shadow-blue-500/30'
+                  : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+            >
+              {type.charAt(0).toUpperCase() + type.slice(1)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-center gap-4 mb-8">
+        <button
+          onClick={search.fetchGames}
+          disabled={search.isLoading}
+          className="flex items-center px-8 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {search.isLoading ? (
+            <>
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              {search.games.length > 0 ? `${search.games.length} games loaded...` : 'Loading...'}
+            </>
+          ) : (
+            <>
+              <Search className="w-5 h-5 mr-2" />
+              {actionLabel}
+            </>
+          )}
+        </button>
+        {search.isLoading && (
+          <button
+            onClick={search.cancelFetch}
+            className="flex items-center px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 mr-2" />
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {search.username && search.source.cached && (
+        <div className="flex items-center justify-center gap-3 -mt-4 mb-6 text-sm text-gray-400">
+          <span>
+            {search.syncInfo
+              ? `Last synced ${format(new Date(search.syncInfo.lastSync), 'MMM d, yyyy HH:mm')}`
+              : 'Not cached yet'}
+          </span>
+          {search.syncInfo && (
+            <button
+              onClick={search.clearSourceCache}
+              disabled={search.isLoading}
+              className="flex items-center gap-1 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              Clear cache
+            </button>
+          )}
+        </div>
+      )}
+
+      {search.error && (
+        <div className="flex items-center justify-center gap-4 text-red-400 text-center mb-6">
+          <span>{search.error}</span>
+          {search.canRetry && !search.isLoading && (
+            <button
+              onClick={search.fetchGames}
+              className="flex items-center gap-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+            >
+              <RotateCw className="w-4 h-4" />
+              Retry
+            </button>
+          )}
+        </div>
+      )}
+
+      {search.missingMonths.length > 0 && (
+        <div className="flex items-start gap-3 px-4 py-3 mb-6 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-300">
+          <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0" />
+          <div>
+            <p className="font-semibold">Some months could not be loaded, so these results are incomplete.</p>
+            <p className="text-sm text-yellow-300/80">Missing: {search.missingMonths.join(', ')}</p>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default GameSearchForm;
@@ -0,0 +1,115 @@
+import { X } from 'lucide-react';
+import { GAME_PHASES } from '../clock-stats';
+import { EMPTY_FILTERS, NapFilters, activeFilterCount } from '../nap-table';
+
+interface NapFiltersBarProps {
+  filters: NapFilters;
+  onChange: (filters: NapFilters) => void;
+}
+
+const SELECT_CLASS = 'px-3 py-2 bg-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+const NUMBER_CLASS = 'w-20 px-2 py-2 bg-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Empty inputs clear that end of the range
+function parseBound(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+function NapFiltersBar({ filters, onChange }: NapFiltersBarProps) {
+  const update = (changes: Partial<NapFilters>) => onChange({ ...filters, ...changes });
+  const activeCount = activeFilterCount(filters);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <select
+        value={filters.result}
+        onChange={(e) => update({ result: e.target.value as NapFilters['result'] })}
+        className={SELECT_CLASS}
+      >
+        <option value="all">Any result</option>
+        {(['win', 'loss', 'draw'] as const).map(result => (
+          <option key={result} value={result}>{capitalize(result)}s</option>
+        ))}
+      </select>
+      <select
+        value={filters.rated}
+        onChange={(e) => update({ rated: e.target.value as NapFilters['rated'] })}
+        className={SELECT_CLASS}
+      >
+        <option value="all">Rated and casual</option>
+        <option value="rated">Rated only</option>
+        <option value="casual">Casual only</option>
+      </select>
+      <select
+        value={filters.phase}
+        onChange={(e) => update({ phase: e.target.value as NapFilters['phase'] })}
+        className={SELECT_CLASS}
+      >
+        <option value="all">Any phase</option>
+        {GAME_PHASES.map(phase => (
+          <option key={phase} value={phase}>{capitalize(phase)}</option>
+        ))}
+      </select>
+      <span className="flex items-center gap-2 text-gray-400">
+        Opponent rating
+        <input
+          type="number"
+          value={filters.minOpponentRating ?? ''}
+          onChange={(e) => update({ minOpponentRating: parseBound(e.target.value) })}
+          placeholder="min"
+          className={NUMBER_CLASS}
+        />
+        –
+        <input
+          type="number"
+          value={filters.maxOpponentRating ?? ''}
+          onChange={(e) => update({ maxOpponentRating: parseBound(e.target.value) })}
+          placeholder="max"
+          className={NUMBER_CLASS}
+        />
+      </span>
+      <span className="flex items-center gap-2 text-gray-400">
+        Moves
+        <input
+          type="number"
+          min="1"
+          value={filters.minMoveNumber ?? ''}
+          onChange={(e) => update({ minMoveNumber: parseBound(e.target.value) })}
+          placeholder="from"
+          className={NUMBER_CLASS}
+        />
+        –
+        <input
+          type="number"
+          min="1"
+          value={filters.maxMoveNumber ?? ''}
+          onChange={(e) => update({ maxMoveNumber: parseBound(e.target.value) })}
+          placeholder="to"
+          className={NUMBER_CLASS}
+        />
+      </span>
+      <input
+        type="text"
+        value={filters.opponent}
+        onChange={(e) => update({ opponent: e.target.value })}
+        placeholder="Opponent name"
+        className="px-3 py-2 bg-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+      />
+      {activeCount > 0 && (
+        <button
+          onClick={() => onChange(EMPTY_FILTERS)}
+          className="flex items-center gap-1 px-3 py-2 text-gray-400 hover:text-white transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Clear {activeCount} {activeCount === 1 ? 'filter' : 'filters'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default NapFiltersBar;
@@ -0,0 +1,186 @@
+import { useMemo, useState } from 'react';
+import { NormalizedGame } from '../games';
+import { JUDGMENT_THRESHOLDS } from '../analysis';
+import { LONG_NAP_MS, NapQuadrant, QUADRANT_LABELS, QUICK_MOVE_MS, napPayoffStats, napPoints } from '../nap-payoff';
+import { NapThreshold, clockKind, defaultNapThreshold, napDetector } from '../nap-threshold';
+import { formatOptionalTime, formatTimeSpent } from '../format';
+import NapThresholdInput from './NapThresholdInput';
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 300;
+const PADDING = { top: 12, right: 16, bottom: 36, left: 44 };
+// Losses beyond this are drawn on the top edge so a few lost positions don't flatten the rest
+const MAX_LOSS = 50;
+const TIME_TICKS = [1, 5, 10, 30, 60, 300, 900, 3600, 4 * 3600, 86400, 3 * 86400, 7 * 86400];
+
+const POINT_COLORS = {
+  blunder: '#f87171',
+  mistake: '#fb923c',
+  inaccuracy: '#facc15',
+  good: '#4ade80'
+};
+
+const QUADRANT_STYLES: Record<NapQuadrant, string> = {
+  'nap-good': 'border-green-500/30 text-green-300',
+  'nap-bad': 'border-red-500/30 text-red-300',
+  'quick-good': 'border-blue-500/30 text-blue-300',
+  'quick-bad': 'border-orange-500/30 text-orange-300'
+};
+
+interface NapPayoffProps {
+  games: NormalizedGame[];
+}
+
+function formatTick(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${seconds / 60}m`;
+  return seconds < 86400 ? `${seconds / 3600}h` : `${seconds / 86400}d`;
+}
+
+function NapPayoff({ games }: NapPayoffProps) {
+  const [chosenThreshold, setNapThreshold] = useState<NapThreshold>();
+  const clocks = useMemo(() => clockKind(games), [games]);
+  const napThreshold = chosenThreshold ?? defaultNapThreshold(clocks);
+  const points = napPoints(games);
+  const stats = napPayoffStats(points, napDetector(napThreshold));
+
+  if (points.length === 0) {
+    return (
+      <p className="text-sm text-gray-400">
+        None of the analyzed moves have clock data, so think time can't be compared with move quality.
+      </p>
+    );
+  }
+
+  // Think time runs on a log scale from a tenth of a second to the slowest move
+  const maxSeconds = Math.max(120, ...points.map(point => point.thinkTime / 1000));
+  const minLog = Math.log10(0.1);
+  const maxLog = Math.log10(maxSeconds);
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (milliseconds: number) =>
+    PADDING.left + ((Math.log10(Math.max(milliseconds / 1000, 0.1)) - minLog) / (maxLog - minLog)) * plotWidth;
+  const y = (loss: number) =>
+    PADDING.top + plotHeight - (Math.min(Math.max(loss, 0), MAX_LOSS) / MAX_LOSS) * plotHeight;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-semibold">Did the nap pay off?</h3>
+          <p className="text-sm text-gray-400 mt-1">
+            {points.length} of your moves with both a think time and an engine evaluation
+          </p>
+        </div>
+        <NapThresholdInput key={clocks} threshold={napThreshold} onChange={setNapThreshold} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {(['nap-good', 'nap-bad', 'quick-good', 'quick-bad'] as const).map((quadrant) => (
+          <div key={quadrant} className={`px-4 py-3 rounded-lg border bg-gray-900/40 ${QUADRANT_STYLES[quadrant]}`}>
+            <p className="text-2xl font-bold">
+              {stats.quadrants[quadrant]}
+              <span className="text-sm font-normal text-gray-400">
+                {' '}({Math.round((stats.quadrants[quadrant] / points.length) * 100)}%)
+              </span>
+            </p>
+            <p className="text-sm">{QUADRANT_LABELS[quadrant]}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-x-8 gap-y-2 text-sm text-gray-300">
+        <span>
+          <span className="text-red-300 font-semibold">{stats.quickBlunders}</span> of {stats.blunders} blunders
+          after less than {QUICK_MOVE_MS / 1000} s
+        </span>
+        <span>
+          <span className="text-red-300 font-semibold">{stats.longBlunders}</span> of {stats.blunders} blunders
+          after more than {LONG_NAP_MS / 1000} s
+        </span>
+        <span>Average think before a mistake or blunder: {formatOptionalTime(stats.averageThinkBeforeBad)}</span>
+        <span>Before any other move: {formatOptionalTime(stats.averageThinkBeforeGood)}</span>
+      </div>
+
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full bg-gray-900/40 rounded-xl">
+        {/* Quadrant dividers; only a time threshold sits at one spot on the think-time axis */}
+        {napThreshold.mode === 'seconds' && (
+          <line
+            x1={x(napThreshold.value * 1000)}
+            x2={x(napThreshold.value * 1000)}
+            y1={PADDING.top}
+            y2={PADDING.top + plotHeight}
+            stroke="#6b7280"
+            strokeDasharray="4 4"
+          />
+        )}
+        <line
+          x1={PADDING.left}
+          x2={PADDING.left + plotWidth}
+          y1={y(JUDGMENT_THRESHOLDS.mistake)}
+          y2={y(JUDGMENT_THRESHOLDS.mistake)}
+          stroke="#6b7280"
+          strokeDasharray="4 4"
+        />
+
+        {TIME_TICKS.filter(seconds => seconds <= maxSeconds).map((seconds) => (
+          <text
+            key={seconds}
+            x={x(seconds * 1000)}
+            y={CHART_HEIGHT - PADDING.bottom + 16}
+            textAnchor="middle"
+            className="fill-gray-400 text-[10px]"
+          >
+            {formatTick(seconds)}
+          </text>
+        ))}
+        {[0, 10, 20, 30, 40, 50].map((loss) => (
+          <text
+            key={loss}
+            x={PADDING.left - 8}
+            y={y(loss) + 3}
+            textAnchor="end"
+            className="fill-gray-400 text-[10px]"
+          >
+            {loss}%
+          </text>
+        ))}
+        <text
+          x={PADDING.left + plotWidth / 2}
+          y={CHART_HEIGHT - 4}
+          textAnchor="middle"
+          className="fill-gray-500 text-[10px]"
+        >
+          Think time
+        </text>
+        <text
+          x={10}
+          y={PADDING.top + plotHeight / 2}
+          textAnchor="middle"
+          transform={`rotate(-90 10 ${PADDING.top + plotHeight / 2})`}
+          className="fill-gray-500 text-[10px]"
+        >
+          Winning chances lost
+        </text>
+
+        {points.map((point) => (
+          <circle
+            key={`${point.game.id}-${point.move.ply}`}
+            cx={x(point.thinkTime)}
+            cy={y(point.loss)}
+            r={point.move.judgment ? 4 : 3}
+            fill={POINT_COLORS[point.move.judgment ?? 'good']}
+            opacity={point.move.judgment ? 0.9 : 0.4}
+          >
+            <title>
+              {`${point.move.moveNumber}${point.move.color === 'white' ? '.' : '...'}${point.move.san}: `}
+              {`${formatTimeSpent(point.thinkTime)}, ${point.loss.toFixed(1)}% winning chances lost`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+export default NapPayoff;
@@ -0,0 +1,247 @@
+import { Fragment, ReactNode, useMemo, useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, ChevronDown, Clock, ExternalLink } from 'lucide-react';
+import { format } from 'date-fns';
+import { NormalizedGame, NormalizedMove } from '../games';
+import { NapThreshold, describeNapThreshold, formatNapMeasure } from '../nap-threshold';
+import { DEFAULT_DIRECTIONS, NapColumn, NapRow, NapSort, NapSortKey } from '../nap-table';
+import { firstMoveOutOfBook } from '../openings';
+import { gameSources } from '../sources';
+import { formatOptionalTime, formatTimeSpent } from '../format';
+import { useVirtualRows } from '../use-virtual-rows';
+import BoardViewer from './BoardViewer';
+import StudyExport from './StudyExport';
+
+interface NapTableProps {
+  rows: NapRow[];
+  sort: NapSort;
+  onSortChange: (sort: NapSort) => void;
+  columns: NapColumn[];
+  napThreshold: NapThreshold;
+  isNap: (game: NormalizedGame, move: NormalizedMove) => boolean;
+  // Badge each row with its site, for profiles that mix platforms
+  showPlatform: boolean;
+}
+
+// Estimates for the virtual scroller; real rows may differ a little without harm
+const ROW_HEIGHT = 68;
+const EXPANDED_HEIGHT = 640;
+
+const RESULT_STYLES = {
+  win: 'text-green-400',
+  loss: 'text-red-400',
+  draw: 'text-gray-300'
+};
+
+function napKey({ game, ply }: { game: NormalizedGame; ply: number }): string {
+  return `${game.platform}-${game.id}-${ply}`;
+}
+
+function formatMoveNotation(moveNumber: number, move: string, isWhite: boolean): string {
+  return isWhite ? `${moveNumber}.${move}` : `${moveNumber}...${move}`;
+}
+
+function SortHeader({ label, sortKey, sort, onSortChange, children }: {
+  label: string;
+  sortKey: NapSortKey;
+  sort: NapSort;
+  onSortChange: (sort: NapSort) => void;
+  children?: ReactNode;
+}) {
+  const active = sort.key === sortKey;
+  const Icon = !active ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <th className="px-4 py-3 text-left">
+      <button
+        onClick={() => onSortChange(active
+          ? { key: sortKey, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+          : { key: sortKey, direction: DEFAULT_DIRECTIONS[sortKey] })}
+        className={`inline-flex items-center gap-1 ${active ? 'text-blue-400' : 'hover:text-gray-300'}`}
+      >
+        {label}
+        <Icon className={`w-3 h-3 ${active ? '' : 'opacity-50'}`} />
+      </button>
+      {children}
+    </th>
+  );
+}
+
+function NapTable({ rows, sort, onSortChange, columns, napThreshold, isNap, showPlatform }: NapTableProps) {
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+  const [selectedNaps, setSelectedNaps] = useState<string[]>([]);
+
+  const expandedIndex = useMemo(() => rows.findIndex(row => napKey(row) === expandedRow), [rows, expandedRow]);
+  const { containerRef, onScroll, start, end, paddingTop, paddingBottom } = useVirtualRows(rows.length, {
+    rowHeight: ROW_HEIGHT,
+    expandedIndex: expandedIndex >= 0 ? expandedIndex : undefined,
+    expandedHeight: EXPANDED_HEIGHT
+  });
+
+  const selectedKeys = useMemo(() => new Set(selectedNaps), [selectedNaps]);
+  const selectedRows = useMemo(() => rows.filter(row => selectedKeys.has(napKey(row))), [rows, selectedKeys]);
+  const allSelected = rows.length > 0 && selectedRows.length === rows.length;
+  const columnCount = 6 + columns.length;
+  const shows = (column: NapColumn) => columns.includes(column);
+  const header = { sort, onSortChange };
+
+  const toggleSelected = (key: string) => {
+    setSelectedNaps(selectedKeys.has(key) ? selectedNaps.filter(other => other !== key) : [...selectedNaps, key]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {selectedRows.length > 0 && (
+        <StudyExport chapters={selectedRows} />
+      )}
+      <div ref={containerRef} onScroll={onScroll} className="overflow-auto max-h-[70vh]">
+        <table className="w-full">
+          <thead className="sticky top-0 z-10 bg-gray-800">
+            <tr className="border-b border-gray-700">
+              <th className="pl-4 py-3 text-left">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelectedNaps(allSelected ? [] : rows.map(napKey))}
+                  title="Select every nap"
+                />
+              </th>
+              <SortHeader label="Date" sortKey="date" {...header} />
+              <SortHeader label="Players" sortKey="opponent" {...header} />
+              {shows('opponentRating') && <SortHeader label="Opp. Rating" sortKey="opponentRating" {...header} />}
+              {shows('result') && <SortHeader label="Result" sortKey="result" {...header} />}
+              {shows('opening') && <SortHeader label="Opening" sortKey="opening" {...header} />}
+              <SortHeader label="Time Control" sortKey="timeControl" {...header} />
+              <SortHeader label="Move" sortKey="move" {...header} />
+              {shows('clock') && <SortHeader label="Clock Left" sortKey="clock" {...header} />}
+              <SortHeader label="Time Spent" sortKey="time" {...header}>
+                <span className="block text-xs font-normal text-gray-400">
+                  Naps: {describeNapThreshold(napThreshold)}
+                </span>
+              </SortHeader>
+            </tr>
+          </thead>
+          <tbody>
+            {paddingTop > 0 && <tr style={{ height: paddingTop }}><td colSpan={columnCount} /></tr>}
+            {rows.slice(start, end).map((highlight) => {
+              const { game, move } = highlight;
+              const rowKey = napKey(highlight);
+              const openExternal = () => gameSources[game.platform].openPosition(game, highlight.ply);
+
+              return (
+                <Fragment key={rowKey}>
+                  <tr
+                    className={`border-b border-gray-700/50 hover:bg-gray-700/30 cursor-pointer ${
+                      expandedRow === rowKey ? 'bg-gray-700/30' : ''
+                    }`}
+                    onClick={() => setExpandedRow(expandedRow === rowKey ? null : rowKey)}
+                  >
+                    <td className="pl-4 py-3" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={selectedKeys.has(rowKey)}
+                        onChange={() => toggleSelected(rowKey)}
+                        title="Select for a Lichess study"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      {format(new Date(game.date), 'MMM d, yyyy')}
+                      {showPlatform && (
+                        <span className="block w-fit mt-1 px-2 py-0.5 rounded text-xs bg-gray-700 text-gray-300">
+                          {gameSources[game.platform].label}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {game.whitePlayer} vs {game.blackPlayer}
+                    </td>
+                    {shows('opponentRating') && <td className="px-4 py-3 font-mono">{game.opponentRating}</td>}
+                    {shows('result') && (
+                      <td className={`px-4 py-3 ${RESULT_STYLES[game.result]}`}>
+                        {game.result.charAt(0).toUpperCase() + game.result.slice(1)}
+                      </td>
+                    )}
+                    {shows('opening') && (
+                      <td className="px-4 py-3 text-sm text-gray-300">
+                        {game.opening && (
+                          <>
+                            {game.opening.eco && <span className="font-mono text-gray-500 mr-1">{game.opening.eco}</span>}
+                            {game.opening.name}
+                          </>
+                        )}
+                      </td>
+                    )}
+                    <td className="px-4 py-3">
+                      {game.timeControl}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-1">
+                        <ChevronDown
+                          className={`w-4 h-4 opacity-50 transition-transform ${
+                            expandedRow === rowKey ? 'rotate-180' : ''
+                          }`}
+                        />
+                        <span className="font-mono">
+                          {formatMoveNotation(move.moveNumber, move.san, move.color === 'white')}
+                        </span>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openExternal();
+                          }}
+                          className="p-1 opacity-50 hover:opacity-100 transition-opacity"
+                          title="Open on the source site"
+                        >
+                          <ExternalLink className="w-3 h-3" />
+                        </button>
+                        {game.illegalMove && (
+                          <span title={`Positions unavailable: ${game.illegalMove.reason}`}>
+                            <AlertTriangle className="w-3 h-3 text-yellow-400" />
+                          </span>
+                        )}
+                        {firstMoveOutOfBook(game)?.ply === highlight.ply && (
+                          <span
+                            className="px-2 py-0.5 rounded text-xs bg-yellow-500/20 text-yellow-300"
+                            title={`Your first move after ${game.opening?.name} theory`}
+                          >
+                            out of book
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    {shows('clock') && <td className="px-4 py-3 font-mono">{formatOptionalTime(move.clock)}</td>}
+                    <td className="px-4 py-3">
+                      <span className="flex items-center gap-1 text-red-400">
+                        <Clock className="w-4 h-4" />
+                        {formatTimeSpent(move.thinkTime!)}
+                      </span>
+                      {napThreshold.mode !== 'seconds' && highlight.measure !== undefined && (
+                        <span className="block text-xs text-gray-400">
+                          {formatNapMeasure(napThreshold.mode, highlight.measure)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedRow === rowKey && (
+                    <tr className="border-b border-gray-700/50">
+                      <td colSpan={columnCount} className="px-4 py-4">
+                        <BoardViewer
+                          game={game}
+                          ply={highlight.ply}
+                          isNap={(candidate) => isNap(game, candidate)}
+                          onOpenExternal={openExternal}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+            {paddingBottom > 0 && <tr style={{ height: paddingBottom }}><td colSpan={columnCount} /></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default NapTable;
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { NAP_MODES, NapMode, NapThreshold, TIME_UNITS, bestTimeUnit } from '../nap-threshold';
+
+interface NapThresholdInputProps {
+  threshold: NapThreshold;
+  onChange: (threshold: NapThreshold) => void;
+}
+
+const CONTROL_CLASS = 'px-3 py-1 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+function NapThresholdInput({ threshold, onChange }: NapThresholdInputProps) {
+  // Time thresholds are typed in a chosen unit but always stored in seconds
+  const [unit, setUnit] = useState(() => bestTimeUnit(threshold.value));
+  const scale = threshold.mode === 'seconds' ? unit.seconds : 1;
+
+  return (
+    <div className="flex items-center gap-2">
+      <label className="text-sm text-gray-400">Nap from:</label>
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={threshold.value / scale}
+        onChange={(e) => onChange({ ...threshold, value: Number(e.target.value) * scale })}
+        className={`w-20 ${CONTROL_CLASS}`}
+      />
+      {threshold.mode === 'seconds' && (
+        <select
+          value={unit.label}
+          onChange={(e) => setUnit(TIME_UNITS.find(option => option.label === e.target.value) ?? TIME_UNITS[0])}
+          className={CONTROL_CLASS}
+        >
+          {TIME_UNITS.map(option => (
+            <option key={option.label} value={option.label}>{option.label}</option>
+          ))}
+        </select>
+      )}
+      <select
+        value={threshold.mode}
+        onChange={(e) => {
+          const mode = e.target.value as NapMode;
+          onChange({ mode, value: NAP_MODES[mode].defaultValue });
+          setUnit(bestTimeUnit(NAP_MODES[mode].defaultValue));
+        }}
+        className={CONTROL_CLASS}
+      >
+        {Object.entries(NAP_MODES).map(([mode, { label }]) => (
+          <option key={mode} value={mode}>{label}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default NapThresholdInput;
@@ -0,0 +1,52 @@
+import { useMemo } from 'react';
+import { NormalizedGame, NormalizedMove } from '../games';
+import { openingNapStats } from '../openings';
+import { formatOptionalTime } from '../format';
+
+interface OpeningNapsProps {
+  games: NormalizedGame[];
+  isNap: (game: NormalizedGame, move: NormalizedMove) => boolean;
+}
+
+// Think time grouped by opening, heaviest clock burners first
+function OpeningNaps({ games, isNap }: OpeningNapsProps) {
+  const stats = useMemo(() => openingNapStats(games, isNap), [games, isNap]);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-gray-700">
+            <th className="px-4 py-3 text-left">Opening</th>
+            <th className="px-4 py-3 text-right">Games</th>
+            <th className="px-4 py-3 text-right">Score</th>
+            <th className="px-4 py-3 text-right">Avg. Think</th>
+            <th className="px-4 py-3 text-right">Total Think</th>
+            <th className="px-4 py-3 text-right">Naps</th>
+            <th className="px-4 py-3 text-right" title="Games where your first move after known theory was a nap">
+              Naps Out of Book
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.map((opening) => (
+            <tr key={`${opening.eco} ${opening.name}`} className="border-b border-gray-700/50 hover:bg-gray-700/30">
+              <td className="px-4 py-3">
+                {opening.eco && <span className="font-mono text-gray-400 mr-2">{opening.eco}</span>}
+                {opening.name}
+              </td>
+              <td className="px-4 py-3 text-right">{opening.games}</td>
+              <td className="px-4 py-3 text-right">{Math.round(opening.score * 100)}%</td>
+              <td className="px-4 py-3 text-right font-mono">{formatOptionalTime(opening.averageThink)}</td>
+              <td className="px-4 py-3 text-right font-mono">{formatOptionalTime(opening.totalThink)}</td>
+              <td className="px-4 py-3 text-right text-red-400">{opening.naps}</td>
+              <td className="px-4 py-3 text-right text-yellow-300">{opening.outOfBookNaps}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default OpeningNaps;
@@ -0,0 +1,70 @@
+import { DragEvent, useState } from 'react';
+import { FileText, Upload } from 'lucide-react';
+import { UploadedFile } from '../games';
+
+interface PgnFilePickerProps {
+  file: UploadedFile | null;
+  players: string[];
+  username: string;
+  onFileChange: (file: File) => void;
+  onUsernameChange: (username: string) => void;
+}
+
+function PgnFilePicker({ file, players, username, onFileChange, onUsernameChange }: PgnFilePickerProps) {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const dropped = e.dataTransfer.files[0];
+    if (dropped) onFileChange(dropped);
+  };
+
+  return (
+    <div className="space-y-3">
+      <span className="text-gray-300 block mb-2">PGN File</span>
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex items-center gap-3 px-4 py-3 rounded-lg border-2 border-dashed cursor-pointer transition-colors ${
+          isDragging ? 'border-blue-500 bg-blue-500/10' : 'border-gray-600 bg-gray-700 hover:border-gray-500'
+        }`}
+      >
+        {file ? <FileText className="w-5 h-5 text-blue-400" /> : <Upload className="w-5 h-5 text-gray-400" />}
+        <span className={file ? 'text-white truncate' : 'text-gray-400'}>
+          {file ? file.name : 'Drop a .pgn file here or click to choose'}
+        </span>
+        <input
+          type="file"
+          accept=".pgn,application/x-chess-pgn"
+          className="hidden"
+          onChange={(e) => {
+            const chosen = e.target.files?.[0];
+            if (chosen) onFileChange(chosen);
+          }}
+        />
+      </label>
+
+      {players.length > 0 && (
+        <label className="block">
+          <span className="text-gray-300 block mb-2">Which player are you?</span>
+          <select
+            value={username}
+            onChange={(e) => onUsernameChange(e.target.value)}
+            className="w-full px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            {players.map((player) => (
+              <option key={player} value={player}>{player}</option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+}
+
+export default PgnFilePicker;
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { BookOpen, Loader2 } from 'lucide-react';
+import { NapChapter, createStudyClient, loadStudyToken, parseStudyId, saveStudyToken } from '../lichess-study';
+import { LICHESS_BASE_URL } from '../lichess';
+
+interface StudyExportProps {
+  chapters: NapChapter[];
+}
+
+type StudyTarget = 'existing' | 'new';
+
+// Send the selected naps to a new Lichess study or one the user owns, one chapter each
+function StudyExport({ chapters }: StudyExportProps) {
+  const [token, setToken] = useState(loadStudyToken);
+  const [target, setTarget] = useState<StudyTarget>('existing');
+  const [study, setStudy] = useState('');
+  const [studyName, setStudyName] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const studyId = parseStudyId(study);
+  const ready = Boolean(token.trim()) && (target === 'new' ? Boolean(studyName.trim()) : Boolean(studyId));
+
+  const send = async () => {
+    if (!ready) return;
+    // Remember the token once it is used, not on every keystroke
+    saveStudyToken(token.trim());
+    setError('');
+    setSentTo(null);
+    setProgress({ done: 0, total: chapters.length });
+    try {
+      const client = createStudyClient({ token: token.trim() });
+      const id = target === 'new' ? await client.createStudy(studyName.trim()) : studyId;
+      if (!id) return;
+      await client.addChapters(id, chapters, {
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      setSentTo(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add the chapters. Please try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-900/40 rounded-xl">
+      <h4 className="font-semibold flex items-center gap-2">
+        <BookOpen className="w-4 h-4 text-blue-400" />
+        Send {chapters.length} selected {chapters.length === 1 ? 'nap' : 'naps'} to a Lichess study
+      </h4>
+      <div className="flex rounded-lg overflow-hidden w-fit">
+        {(['existing', 'new'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setTarget(option)}
+            className={`px-3 py-1 text-sm transition-colors ${
+              target === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+          >
+            {option === 'existing' ? 'Existing study' : 'New study'}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3">
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="Lichess API token (study:write)"
+          className="px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        {target === 'existing' ? (
+          <input
+            type="text"
+            value={study}
+            onChange={(e) => setStudy(e.target.value)}
+            placeholder="Study link or ID"
+            className="px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+        ) : (
+          <input
+            type="text"
+            value={studyName}
+            onChange={(e) => setStudyName(e.target.value)}
+            placeholder="New study name"
+            maxLength={100}
+            className="px-4 py-2 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+        )}
+        <button
+          onClick={send}
+          disabled={!ready || progress !== null}
+          className="flex items-center justify-center px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {progress ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              {progress.done}/{progress.total}
+            </>
+          ) : (
+            target === 'new' ? 'Create study' : 'Add chapters'
+          )}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Create a personal token at{' '}
+        <a href={`${LICHESS_BASE_URL}/account/oauth/token`} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline">
+          lichess.org/account/oauth/token
+        </a>
+        . It is kept in this browser only, once you send. Each chapter starts from the position before the long think.
+      </p>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {sentTo && (
+        <p className="text-sm text-green-400">
+          Chapters added.{' '}
+          <a href={`${LICHESS_BASE_URL}/study/${sentTo}`} target="_blank" rel="noreferrer" className="underline">
+            Open the study
+          </a>
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default StudyExport;
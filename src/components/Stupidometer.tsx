@@ -1,8 +1,113 @@
-import React from 'react';
-import { Brain, Construction } from 'lucide-react';
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react';
+import { Brain, Cpu, ExternalLink, Loader2, X, ChevronDown } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Judgment, NormalizedGame, PLATFORM_NAMES, fenBefore } from '../games';
+import { gameSources } from '../sources';
+import { useGameSearch } from '../use-game-search';
+import { Engine, createEngine } from '../engine';
+import { analyzeGame, formatEvaluation, worstMoves } from '../analysis';
+import { uciToSan } from '../chess';
+import { isAbortError } from '../errors';
+import { clockKind, defaultNapThreshold, napDetector } from '../nap-threshold';
+import GameSearchForm from './GameSearchForm';
+import BoardViewer from './BoardViewer';
+import NapPayoff from './NapPayoff';
+
+const DEPTHS = [8, 10, 12, 14];
+
+const JUDGMENT_STYLES: Record<Judgment, string> = {
+  inaccuracy: 'bg-yellow-500/20 text-yellow-300',
+  mistake: 'bg-orange-500/20 text-orange-300',
+  blunder: 'bg-red-500/20 text-red-300'
+};
+
+function analysisLabel(game: NormalizedGame): string {
+  const source = game.analysis?.source === 'server'
+    ? `${PLATFORM_NAMES[game.platform]} analysis`
+    : `Local engine, depth ${game.analysis?.depth}`;
+  return game.analysis?.accuracy !== undefined ? `${source} · ${game.analysis.accuracy}% accuracy` : source;
+}
+
+interface AnalysisProgress {
+  game: number;
+  games: number;
+  position: number;
+  positions: number;
+}
 
 function Stupidometer() {
+  const search = useGameSearch();
+  const { games } = search;
+  // No threshold setting here, so naps on the clock chart follow the tracker's default for these games
+  const isNap = useMemo(() => napDetector(defaultNapThreshold(clockKind(games))), [games]);
+  const [depth, setDepth] = useState(10);
+  // Games analyzed by the local engine, keyed by id; server-analyzed games are used as loaded
+  const [engineResults, setEngineResults] = useState<Record<string, NormalizedGame>>({});
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [analysisError, setAnalysisError] = useState('');
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+  const engineRef = useRef<Engine | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const stopAnalysis = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    // Terminating is the only way to interrupt a search that is already running
+    engineRef.current?.terminate();
+    engineRef.current = null;
+    setProgress(null);
+  };
+
+  // A new search invalidates whatever was analyzed for the previous one
+  useEffect(() => {
+    stopAnalysis();
+    setEngineResults({});
+    setExpandedRow(null);
+  }, [games]);
+
+  useEffect(() => () => stopAnalysis(), []);
+
+  const analyzed = games
+    .map(game => engineResults[game.id] ?? game)
+    .filter(game => game.analysis);
+  const unanalyzed = games.filter(game => !game.analysis && !engineResults[game.id]);
+
+  const runAnalysis = async () => {
+    stopAnalysis();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setAnalysisError('');
+
+    try {
+      engineRef.current = createEngine();
+      const engine = engineRef.current;
+      for (let index = 0; index < unanalyzed.length; index++) {
+        const game = await analyzeGame(unanalyzed[index], engine, {
+          depth,
+          signal: controller.signal,
+          onProgress: (position, positions) => {
+            if (!controller.signal.aborted) {
+              setProgress({ game: index + 1, games: unanalyzed.length, position, positions });
+            }
+          }
+        });
+        if (controller.signal.aborted) return;
+        setEngineResults(prev => ({ ...prev, [game.id]: game }));
+      }
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      setAnalysisError(err instanceof Error ? err.message : 'The engine failed to start.');
+    } finally {
+      if (abortControllerRef.current === controller) stopAnalysis();
+    }
+  };
+
+  const countJudgments = (judgment: Judgment) => analyzed.reduce(
+    (total, game) => total + game.moves.filter(move => move.color === game.userColor && move.judgment === judgment).length,
+    0
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 to-gray-800 text-white">
       <header className="bg-black/30 backdrop-blur-sm">
@@ -21,12 +126,192 @@ function Stupidometer() {
       <main className="container mx-auto px-4 py-8">
         <div className="max-w-7xl mx-auto">
           <div className="bg-gray-800 rounded-2xl p-8 shadow-xl">
-            <div className="flex flex-col items-center justify-center py-16 text-center space-y-6">
-              <Construction className="w-24 h-24 text-blue-400 animate-pulse" />
-              <h2 className="text-4xl font-bold">Coming Soon</h2>
-              <p className="text-gray-400 max-w-lg">
-                The Stupidometer is currently under construction. We're working hard to bring you advanced chess game analysis capabilities.
-              </p>
+            <div className="space-y-8">
+              <GameSearchForm search={search} actionLabel="Load Games" />
+
+              {unanalyzed.length > 0 && !search.isLoading && (
+                <div className="flex flex-wrap items-center justify-center gap-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-400">
+                    Engine depth:
+                    <select
+                      value={depth}
+                      onChange={(e) => setDepth(Number(e.target.value))}
+                      disabled={progress !== null}
+                      className="px-3 py-1 bg-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                      {DEPTHS.map((value) => (
+                        <option key={value} value={value}>{value}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    onClick={runAnalysis}
+                    disabled={progress !== null}
+                    className="flex items-center px-8 py-3 bg-purple-600 hover:bg-purple-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {progress ? (
+                      <>
+                        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                        Game {progress.game} of {progress.games}, position {progress.position}/{progress.positions}
+                      </>
+                    ) : (
+                      <>
+                        <Cpu className="w-5 h-5 mr-2" />
+                        Analyze {unanalyzed.length} games without analysis
+                      </>
+                    )}
+                  </button>
+                  {progress && (
+                    <button
+                      onClick={stopAnalysis}
+                      className="flex items-center px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                    >
+                      <X className="w-5 h-5 mr-2" />
+                      Stop
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {unanalyzed.length > 0 && analyzed.length > 0 && !progress && (
+                <p className="text-sm text-yellow-300 text-center">
+                  {unanalyzed.length} of {games.length} games have no server analysis and are not included below.
+                </p>
+              )}
+
+              {analysisError && (
+                <div className="text-red-400 text-center">{analysisError}</div>
+              )}
+
+              {analyzed.length > 0 && <NapPayoff games={analyzed} />}
+
+              {analyzed.length > 0 && (
+                <div className="space-y-6">
+                  <div>
+                    <h3 className="text-xl font-semibold flex items-center gap-2">
+                      <Brain className="w-5 h-5 text-purple-400" />
+                      Your worst moves
+                    </h3>
+                    <p className="text-sm text-gray-400 mt-1">
+                      {analyzed.length} games analyzed:{' '}
+                      <span className="text-red-300">{countJudgments('blunder')} blunders</span>{' / '}
+                      <span className="text-orange-300">{countJudgments('mistake')} mistakes</span>{' / '}
+                      <span className="text-yellow-300">{countJudgments('inaccuracy')} inaccuracies</span>
+                    </p>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-700">
+                          <th className="px-4 py-3 text-left">Date</th>
+                          <th className="px-4 py-3 text-left">Players</th>
+                          <th className="px-4 py-3 text-left">Move</th>
+                          <th className="px-4 py-3 text-left">Evaluation</th>
+                          <th className="px-4 py-3 text-left">Best Move</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {analyzed.map((game) => {
+                          const worst = worstMoves(game, game.userColor);
+                          if (worst.length === 0) {
+                            return (
+                              <tr key={game.id} className="border-b border-gray-700/50 text-gray-400">
+                                <td className="px-4 py-3">{format(new Date(game.date), 'MMM d, yyyy')}</td>
+                                <td className="px-4 py-3">
+                                  {game.whitePlayer} vs {game.blackPlayer}
+                                  <span className="block text-xs text-gray-500">{analysisLabel(game)}</span>
+                                </td>
+                                <td colSpan={3} className="px-4 py-3">No inaccuracies found</td>
+                              </tr>
+                            );
+                          }
+
+                          return worst.map(({ move }, index) => {
+                            const rowKey = `${game.id}-${move.ply}`;
+                            const previous = game.moves.find(other => other.ply === move.ply - 1);
+                            const positionBefore = fenBefore(game, move.ply);
+                            const bestMove = move.bestMove && positionBefore
+                              ? uciToSan(positionBefore, move.bestMove)
+                              : null;
+                            const openExternal = () => gameSources[game.platform].openPosition(game, move.ply);
+
+                            return (
+                              <Fragment key={rowKey}>
+                                <tr
+                                  className={`border-b border-gray-700/50 hover:bg-gray-700/30 cursor-pointer ${
+                                    expandedRow === rowKey ? 'bg-gray-700/30' : ''
+                                  }`}
+                                  onClick={() => setExpandedRow(expandedRow === rowKey ? null : rowKey)}
+                                >
+                                  <td className="px-4 py-3">
+                                    {index === 0 && format(new Date(game.date), 'MMM d, yyyy')}
+                                  </td>
+                                  <td className="px-4 py-3">
+                                    {index === 0 && (
+                                      <>
+                                        {game.whitePlayer} vs {game.blackPlayer}
+                                        <span className="block text-xs text-gray-500">{analysisLabel(game)}</span>
+                                      </>
+                                    )}
+                                  </td>
+                                  <td className="px-4 py-3">
+                                    <div className="flex items-center gap-2">
+                                      <ChevronDown
+                                        className={`w-4 h-4 opacity-50 transition-transform ${
+                                          expandedRow === rowKey ? 'rotate-180' : ''
+                                        }`}
+                                      />
+                                      <span className="font-mono">
+                                        {move.color === 'white' ? `${move.moveNumber}.` : `${move.moveNumber}...`}{move.san}
+                                      </span>
+                                      {move.judgment && (
+                                        <span className={`px-2 py-0.5 rounded text-xs ${JUDGMENT_STYLES[move.judgment]}`}>
+                                          {move.judgment}
+                                        </span>
+                                      )}
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          openExternal();
+                                        }}
+                                        className="p-1 opacity-50 hover:opacity-100 transition-opacity"
+                                        title="Open on the source site"
+                                      >
+                                        <ExternalLink className="w-3 h-3" />
+                                      </button>
+                                    </div>
+                                  </td>
+                                  <td className="px-4 py-3 font-mono">
+                                    {previous ? formatEvaluation({ cp: previous.eval, mate: previous.mate }) : '-'}
+                                    {' → '}
+                                    {formatEvaluation({ cp: move.eval, mate: move.mate })}
+                                  </td>
+                                  <td className="px-4 py-3 font-mono text-green-400">
+                                    {bestMove || '-'}
+                                  </td>
+                                </tr>
+                                {expandedRow === rowKey && (
+                                  <tr className="border-b border-gray-700/50">
+                                    <td colSpan={5} className="px-4 py-4">
+                                      <BoardViewer
+                                        game={game}
+                                        ply={move.ply}
+                                        isNap={(candidate) => isNap(game, candidate)}
+                                        onOpenExternal={openExternal}
+                                      />
+                                    </td>
+                                  </tr>
+                                )}
+                              </Fragment>
+                            );
+                          });
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -35,4 +320,4 @@ function Stupidometer() {
   );
 }
 
-export default Stupidometer;
\ No newline at end of file
+export default Stupidometer;
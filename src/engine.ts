@@ -0,0 +1,122 @@
+import engineUrl from 'stockfish/src/stockfish.js?url';
+import wasmUrl from 'stockfish/src/stockfish.wasm?url';
+import { isInCheck, legalMoves, parseFEN } from './chess';
+
+// Score of a position from White's point of view, as reported by the engine
+export interface EngineEvaluation {
+  cp?: number;
+  // Moves to mate; positive when White mates, 0 when the side to move is already mated
+  mate?: number;
+  bestMove?: string;
+  depth: number;
+}
+
+export interface Engine {
+  evaluate(fen: string, depth: number): Promise<EngineEvaluation>;
+  terminate(): void;
+}
+
+interface PendingSearch {
+  fen: string;
+  whiteToMove: boolean;
+  evaluation: EngineEvaluation;
+  resolve: (evaluation: EngineEvaluation) => void;
+  reject: (error: Error) => void;
+}
+
+const SCORE_PATTERN = /\bdepth (\d+)\b.*\bscore (cp|mate) (-?\d+)/;
+
+// Checkmate and stalemate have no best move, and the engine reports them inconsistently
+function terminalEvaluation(fen: string): EngineEvaluation | null {
+  const position = parseFEN(fen);
+  if (legalMoves(position).length > 0) return null;
+  if (!isInCheck(position)) return { cp: 0, depth: 0 };
+  return { mate: 0, depth: 0 };
+}
+
+// Run the bundled Stockfish build in a worker; the wasm path rides along in the URL hash
+export function createEngine(): Engine {
+  const worker = new Worker(`${engineUrl}#${wasmUrl}`);
+  const queue: PendingSearch[] = [];
+  let current: PendingSearch | null = null;
+  let ready = false;
+
+  const startNext = () => {
+    if (!ready || current) return;
+    current = queue.shift() || null;
+    if (!current) return;
+    worker.postMessage(`position fen ${current.fen}`);
+    worker.postMessage(`go depth ${current.evaluation.depth}`);
+  };
+
+  worker.onmessage = (event: MessageEvent<string>) => {
+    const line = String(event.data);
+
+    if (line === 'readyok') {
+      ready = true;
+      startNext();
+      return;
+    }
+
+    if (!current) return;
+
+    const score = line.startsWith('info') ? SCORE_PATTERN.exec(line) : null;
+    if (score) {
+      // UCI scores are from the side to move; flip them so every evaluation reads from White
+      const sign = current.whiteToMove ? 1 : -1;
+      const value = Number(score[3]) * sign;
+      current.evaluation = {
+        ...current.evaluation,
+        depth: Number(score[1]),
+        cp: score[2] === 'cp' ? value : undefined,
+        mate: score[2] === 'mate' ? value : undefined
+      };
+      return;
+    }
+
+    if (line.startsWith('bestmove')) {
+      const bestMove = line.split(' ')[1];
+      const finished = current;
+      current = null;
+      finished.resolve({
+        ...finished.evaluation,
+        bestMove: bestMove && bestMove !== '(none)' ? bestMove : undefined
+      });
+      startNext();
+    }
+  };
+
+  const rejectAll = (error: Error) => {
+    for (const search of current ? [current, ...queue] : queue) search.reject(error);
+    current = null;
+    queue.length = 0;
+  };
+
+  // A worker that fails to load or crashes would otherwise leave every search hanging
+  worker.onerror = () => rejectAll(new Error('The analysis engine failed to load.'));
+
+  worker.postMessage('uci');
+  worker.postMessage('isready');
+
+  return {
+    evaluate(fen, depth) {
+      const terminal = terminalEvaluation(fen);
+      if (terminal) return Promise.resolve(terminal);
+
+      return new Promise((resolve, reject) => {
+        queue.push({
+          fen,
+          whiteToMove: fen.split(' ')[1] !== 'b',
+          evaluation: { depth },
+          resolve,
+          reject
+        });
+        startNext();
+      });
+    },
+    terminate() {
+      worker.terminate();
+      rejectAll(new DOMException('Analysis cancelled', 'AbortError'));
+    }
+  };
+}
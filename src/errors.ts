@@ -0,0 +1,104 @@
+import { PLATFORM_NAMES, Platform } from './games';
+
+// Error taxonomy shared by every game source so the UI can tell failures apart
+export class GameSourceError extends Error {
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, { status, retryable = false }: { status?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'GameSourceError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+export class UserNotFoundError extends GameSourceError {
+  constructor(platform: Platform, username: string) {
+    super(`User "${username}" was not found on ${PLATFORM_NAMES[platform]}. Check the spelling and platform.`, { status: 404 });
+    this.name = 'UserNotFoundError';
+  }
+}
+
+export class RateLimitedError extends GameSourceError {
+  // Seconds the server asked us to wait, when it said so
+  readonly retryAfter?: number;
+
+  constructor(platform: Platform, retryAfter?: number) {
+    super(
+      retryAfter
+        ? `${PLATFORM_NAMES[platform]} is rate limiting requests. Try again in ${retryAfter} seconds.`
+        : `${PLATFORM_NAMES[platform]} is rate limiting requests. Wait a minute and try again.`,
+      { status: 429, retryable: true }
+    );
+    this.name = 'RateLimitedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class NetworkError extends GameSourceError {
+  constructor(platform: Platform, status?: number) {
+    super(
+      status
+        ? `${PLATFORM_NAMES[platform]} is having trouble right now (HTTP ${status}). Try again later.`
+        : `Could not reach ${PLATFORM_NAMES[platform]}. Check your connection and try again.`,
+      { status, retryable: true }
+    );
+    this.name = 'NetworkError';
+  }
+}
+
+export class MalformedResponseError extends GameSourceError {
+  constructor(platform: Platform, status?: number) {
+    super(`Could not read the data from ${PLATFORM_NAMES[platform]}.`, { status });
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class EmptyRangeError extends GameSourceError {
+  constructor() {
+    super('No games found for these filters. Try a wider date range or another game type.');
+    this.name = 'EmptyRangeError';
+  }
+}
+
+// The Lichess token was refused, lacks study access, or the study isn't writable by its owner
+export class StudyAccessError extends GameSourceError {
+  constructor(status: number) {
+    super(
+      status === 404
+        ? 'That Lichess study was not found. Check the study link.'
+        : 'Lichess refused the token. Use a personal token with the "study:write" scope, for a study you own or contribute to.',
+      { status }
+    );
+    this.name = 'StudyAccessError';
+  }
+}
+
+function parseRetryAfter(response: Response): number | undefined {
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return retryAfter > 0 ? retryAfter : undefined;
+}
+
+export function errorFromResponse(response: Response, platform: Platform, username: string): GameSourceError {
+  if (response.status === 404) return new UserNotFoundError(platform, username);
+  if (response.status === 429) return new RateLimitedError(platform, parseRetryAfter(response));
+  if (response.status >= 500) return new NetworkError(platform, response.status);
+  return new MalformedResponseError(platform, response.status);
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// A rejected fetch never got an answer, so it is a connection problem unless it was aborted
+export function fetchFailure(error: unknown, platform: Platform): unknown {
+  return isAbortError(error) ? error : new NetworkError(platform);
+}
+
+// Map whatever a fetcher threw onto the taxonomy; anything else, bugs included, passes through as is
+export function toGameSourceError(error: unknown, platform: Platform): unknown {
+  if (error instanceof GameSourceError || isAbortError(error)) return error;
+  if (error instanceof SyntaxError) return new MalformedResponseError(platform);
+  return error;
+}
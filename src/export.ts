@@ -0,0 +1,165 @@
+import { Color, GameClock, NormalizedGame, NormalizedMove, clockBefore } from './games';
+
+// Nap results as files: a CSV of the highlighted moves, the games as JSON, and annotated PGN
+
+type IsNap = (game: NormalizedGame, move: NormalizedMove) => boolean;
+
+const CSV_COLUMNS = [
+  'Date',
+  'White',
+  'Black',
+  'Color',
+  'Time Control',
+  'Move',
+  'Clock Before (s)',
+  'Clock After (s)',
+  'Think Time (s)'
+];
+
+// Quote a field when it holds a separator, quote or line break
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function seconds(milliseconds: number | undefined): number | undefined {
+  return milliseconds === undefined ? undefined : Math.round(milliseconds / 100) / 10;
+}
+
+// One row per highlighted move, in the order given
+export function napsToCsv(rows: { game: NormalizedGame; ply: number }[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const { game, ply } of rows) {
+    const move = game.moves.find(candidate => candidate.ply === ply);
+    if (!move) continue;
+    lines.push([
+      game.date,
+      game.whitePlayer,
+      game.blackPlayer,
+      move.color,
+      game.timeControl,
+      `${move.moveNumber}${move.color === 'white' ? '.' : '...'}${move.san}`,
+      seconds(clockBefore(game, move)),
+      seconds(move.clock),
+      seconds(move.thinkTime)
+    ].map(csvField).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function gamesToJson(games: NormalizedGame[]): string {
+  return JSON.stringify(games, null, 2);
+}
+
+// h:mm:ss as used by the [%clk] and [%emt] commands
+function pgnTime(milliseconds: number): string {
+  const total = Math.round(milliseconds / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+// Compact think time for comments, e.g. 42s, 1m42s, 1h05m00s
+function napLabel(milliseconds: number): string {
+  const total = Math.round(milliseconds / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = total % 60;
+  if (hours > 0) return `${hours}h${String(minutes).padStart(2, '0')}m${String(rest).padStart(2, '0')}s`;
+  return minutes > 0 ? `${minutes}m${String(rest).padStart(2, '0')}s` : `${rest}s`;
+}
+
+function pgnResult(game: NormalizedGame): string {
+  if (game.result === 'draw') return '1/2-1/2';
+  const winner: Color = game.result === 'win' ? game.userColor : game.userColor === 'white' ? 'black' : 'white';
+  return winner === 'white' ? '1-0' : '0-1';
+}
+
+function pgnHeaders(game: NormalizedGame): [string, string][] {
+  const userIsWhite = game.userColor === 'white';
+  const headers: [string, string][] = [
+    ['Event', `${game.gameType} game`],
+    ['Site', game.url],
+    ['Date', game.date.slice(0, 10).replace(/-/g, '.')],
+    ['White', game.whitePlayer],
+    ['Black', game.blackPlayer],
+    ['Result', pgnResult(game)],
+    ['WhiteElo', String(userIsWhite ? game.rating : game.opponentRating)],
+    ['BlackElo', String(userIsWhite ? game.opponentRating : game.rating)]
+  ];
+  if (game.clock) headers.push(['TimeControl', pgnTimeControl(game.clock)]);
+  if (game.opening?.eco) headers.push(['ECO', game.opening.eco]);
+  if (game.opening) headers.push(['Opening', game.opening.name]);
+  if (game.termination) headers.push(['Termination', game.termination]);
+  if (game.initialFen) headers.push(['SetUp', '1'], ['FEN', game.initialFen]);
+  return headers;
+}
+
+// Daily games are written "1/<seconds per move>", as chess.com does
+function pgnTimeControl(clock: GameClock): string {
+  if (clock.perMove) return `1/${clock.initial / 1000}`;
+  return `${clock.initial / 1000}+${clock.increment / 1000}`;
+}
+
+// Break movetext into lines of at most 80 characters, as the PGN standard asks
+function wrapMovetext(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + token.length + 1 > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+// A tag pair line, with quotes and backslashes in the value escaped as the PGN standard asks
+export function pgnHeaderLine(name: string, value: string): string {
+  return `[${name} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`;
+}
+
+function annotateGame(game: NormalizedGame, isNap: IsNap): string {
+  const tokens: string[] = [];
+  let afterComment = true;
+  for (const move of game.moves) {
+    if (move.color === 'white') tokens.push(`${move.moveNumber}.`);
+    else if (afterComment) tokens.push(`${move.moveNumber}...`);
+    tokens.push(move.san);
+
+    const commands: string[] = [];
+    // Only the player's own long thinks are naps, as in the table and the CSV
+    const nap = move.color === game.userColor && move.thinkTime !== undefined && isNap(game, move);
+    if (nap) commands.push(`nap: ${napLabel(move.thinkTime!)}`);
+    if (move.clock !== undefined) commands.push(`[%clk ${pgnTime(move.clock)}]`);
+    if (nap) commands.push(`[%emt ${pgnTime(move.thinkTime!)}]`);
+    afterComment = commands.length > 0;
+    if (afterComment) tokens.push(`{${commands.join(' ')}}`);
+  }
+  tokens.push(pgnResult(game));
+
+  const headers = pgnHeaders(game)
+    .map(([name, value]) => pgnHeaderLine(name, value))
+    .join('\n');
+  return `${headers}\n\n${wrapMovetext(tokens)}\n`;
+}
+
+// Every game's moves with clock times, plus a comment and [%emt] on each nap
+export function gamesToAnnotatedPgn(games: NormalizedGame[], isNap: IsNap): string {
+  return games.map(game => annotateGame(game, isNap)).join('\n');
+}
+
+// Some browsers read the blob after click() returns, so revoking the URL straight away cuts the download off
+const REVOKE_DELAY_MS = 40 * 1000;
+
+export function downloadFile(fileName: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
@@ -0,0 +1,31 @@
+// Display helpers shared by the result views
+
+// Think time as tenths of a second under a minute, otherwise as m:ss or h:mm:ss, and in days and hours for daily games
+export function formatTimeSpent(milliseconds: number): string {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  
+  if (totalSeconds < 60) {
+    return `${(Math.round(milliseconds / 100) / 10).toFixed(1)}s`;
+  }
+  
+  if (totalSeconds >= 86400) {
+    const days = Math.floor(totalSeconds / 86400);
+    const dayHours = Math.floor((totalSeconds % 86400) / 3600);
+    return dayHours > 0 ? `${days}d ${dayHours}h` : `${days}d`;
+  }
+
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const remainingSeconds = totalSeconds % 60;
+  
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+  }
+  
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+}
+
+// Same as formatTimeSpent, with a dash when nothing was measured
+export function formatOptionalTime(milliseconds?: number): string {
+  return milliseconds === undefined ? '-' : formatTimeSpent(milliseconds);
+}
@@ -0,0 +1,217 @@
+// Platform-agnostic game model shared by every game source
+export type Platform = 'chess.com' | 'lichess.org' | 'pgn';
+export type GameResult = 'win' | 'loss' | 'draw';
+export type GameType = 'bullet' | 'blitz' | 'rapid' | 'classical' | 'daily' | 'all';
+export type Color = 'white' | 'black';
+export type GamePhase = 'opening' | 'middlegame' | 'endgame';
+
+export const PLATFORM_NAMES: Record<Platform, string> = {
+  'chess.com': 'chess.com',
+  'lichess.org': 'lichess.org',
+  'pgn': 'the PGN file'
+};
+
+export const GAME_TYPES: readonly GameType[] = ['all', 'bullet', 'blitz', 'rapid', 'classical', 'daily'];
+
+export const STANDARD_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+export type Judgment = 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface NormalizedMove {
+  ply: number;
+  moveNumber: number;
+  color: Color;
+  san: string;
+  clock?: number;
+  thinkTime?: number;
+  // Position after the move, plus what the move did on the board
+  fen?: string;
+  uci?: string;
+  capture?: boolean;
+  check?: boolean;
+  // Worked out from the position once, when the game is normalized
+  phase?: GamePhase;
+  // Engine evaluation after the move in centipawns from White's side, or moves to mate (0 once mated)
+  eval?: number;
+  mate?: number;
+  // Engine's preferred move in the position before this one, in UCI
+  bestMove?: string;
+  judgment?: Judgment;
+}
+
+export interface IllegalMove {
+  ply: number;
+  san: string;
+  reason: string;
+}
+
+// Where a game's move evaluations came from and what they add up to
+export interface GameAnalysis {
+  // 'server' for the source site's own computer analysis, 'engine' for the local worker
+  source: 'server' | 'engine';
+  depth?: number;
+  accuracy?: number;
+  opponentAccuracy?: number;
+}
+
+export interface GameClock {
+  initial: number;
+  increment: number;
+  // Correspondence: the clock is reset to `initial` after every move instead of running down
+  perMove?: boolean;
+}
+
+export interface Opening {
+  eco?: string;
+  name: string;
+  // How many plies from the start are known theory
+  ply?: number;
+}
+
+export interface NormalizedGame {
+  id: string;
+  platform: Platform;
+  url: string;
+  date: string;
+  whitePlayer: string;
+  blackPlayer: string;
+  userColor: Color;
+  result: GameResult;
+  rating: number;
+  opponentRating: number;
+  ratingDiff?: number;
+  termination?: string;
+  gameType: string;
+  timeControl: string;
+  // Starting time and increment in milliseconds, for games played with a clock
+  clock?: GameClock;
+  initialFen?: string;
+  opening?: Opening;
+  moves: NormalizedMove[];
+  // Missing until the game has been analyzed, either by the source site or locally
+  analysis?: GameAnalysis;
+  // Set when the moves could not be replayed; positions stop before this ply
+  illegalMove?: IllegalMove;
+}
+
+// A file the user picked, read into memory once when it was chosen
+export interface UploadedFile {
+  name: string;
+  text: string;
+  lastModified: number;
+}
+
+export interface GameQuery {
+  username: string;
+  gameType: GameType;
+  startDate?: string;
+  endDate?: string;
+  // Only used by sources that read an uploaded file instead of an account
+  file?: UploadedFile;
+}
+
+export type ArchiveStatus = 'cached' | 'loaded' | 'retried' | 'failed';
+
+export interface ArchiveReport {
+  // Archive month as "YYYY/MM"
+  month: string;
+  status: ArchiveStatus;
+  attempts: number;
+  error?: string;
+}
+
+export interface GameLoadResult {
+  games: NormalizedGame[];
+  archives?: ArchiveReport[];
+}
+
+export interface FetchOptions {
+  signal?: AbortSignal;
+  // Called with everything loaded so far whenever a source has new games
+  onProgress?: (games: NormalizedGame[]) => void;
+}
+
+export interface GameSourceAdapter {
+  platform: Platform;
+  label: string;
+  // Whether the source is looked up by account name or loaded from a file the user picks
+  input: 'username' | 'file';
+  // Whether downloaded games are kept in the local cache
+  cached: boolean;
+  gameTypes: readonly GameType[];
+  fetchGames(query: GameQuery, options?: FetchOptions): Promise<GameLoadResult>;
+  openPosition(game: NormalizedGame, ply: number): void;
+}
+
+// Utility functions
+// Expected length of a game, in the clock's own unit: base time plus 40 increments, the way Lichess ranks speeds
+export function estimatedDuration(base: number, increment: number): number {
+  return base + 40 * increment;
+}
+
+// Lichess's speed buckets for a live clock given in seconds
+export function speedOfClock(base: number, increment: number): GameType {
+  const estimate = estimatedDuration(base, increment);
+  if (estimate < 180) return 'bullet';
+  if (estimate < 480) return 'blitz';
+  if (estimate < 1500) return 'rapid';
+  return 'classical';
+}
+
+export function plyToMove(ply: number): { moveNumber: number; color: Color } {
+  return {
+    moveNumber: Math.ceil(ply / 2),
+    color: ply % 2 === 1 ? 'white' : 'black'
+  };
+}
+
+export function playerColor(whitePlayer: string, username: string): Color {
+  return whitePlayer.toLowerCase() === username.toLowerCase() ? 'white' : 'black';
+}
+
+export function resultFor(color: Color, winner?: Color): GameResult {
+  if (!winner) return 'draw';
+  return winner === color ? 'win' : 'loss';
+}
+
+// Position before `ply` is played: the previous move's FEN, or the start position
+export function fenBefore(game: NormalizedGame, ply: number): string | undefined {
+  const index = game.moves.findIndex(move => move.ply === ply);
+  if (index === 0) return game.initialFen || STANDARD_FEN;
+  return index > 0 ? game.moves[index - 1].fen : undefined;
+}
+
+// Each side's remaining clock once `ply` has been played
+export function clocksAt(game: NormalizedGame, ply: number): Record<Color, number | undefined> {
+  const clocks: Record<Color, number | undefined> = { white: undefined, black: undefined };
+  for (const move of game.moves) {
+    if (move.ply > ply) break;
+    if (move.clock !== undefined) clocks[move.color] = move.clock;
+  }
+  return clocks;
+}
+
+// Time on the mover's clock just before the move: their previous reading, or the starting time
+export function clockBefore(game: NormalizedGame, move: NormalizedMove): number | undefined {
+  if (game.clock?.perMove) return game.clock.initial;
+  const index = game.moves.indexOf(move);
+  for (let i = index - 1; i >= 0; i--) {
+    const previous = game.moves[i];
+    if (previous.color === move.color && previous.clock !== undefined) return previous.clock;
+  }
+  return game.clock?.initial;
+}
+
+export function failedArchives(result: GameLoadResult): string[] {
+  return (result.archives || [])
+    .filter(archive => archive.status === 'failed')
+    .map(archive => archive.month);
+}
+
+export function summarizeResults(games: NormalizedGame[]): Record<GameResult, number> {
+  const summary: Record<GameResult, number> = { win: 0, loss: 0, draw: 0 };
+  for (const game of games) {
+    summary[game.result]++;
+  }
+  return summary;
+}
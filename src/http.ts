@@ -0,0 +1,99 @@
+import { Platform } from './games';
+import { fetchFailure } from './errors';
+
+// Shared HTTP helpers for the game sources
+export interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  baseDelay?: number;
+  onRetry?: (attempt: number, response?: Response) => void;
+}
+
+export interface RetryResult {
+  response: Response;
+  attempts: number;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function retryDelay(attempt: number, baseDelay: number, response?: Response): number {
+  // Honour Retry-After (in seconds) when the server sends one
+  const retryAfter = Number(response?.headers.get('Retry-After'));
+  if (retryAfter > 0) return retryAfter * 1000;
+  return baseDelay * 2 ** (attempt - 1);
+}
+
+// fetch, with a request that got no answer reported as a NetworkError for `platform`
+export async function fetchFrom(platform: Platform, url: string, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    throw fetchFailure(error, platform);
+  }
+}
+
+// Fetch with exponential backoff on 429 and 5xx responses and on network failures
+export async function fetchWithRetry(
+  platform: Platform,
+  url: string,
+  { signal, retries = 3, baseDelay = 500, onRetry }: RetryOptions = {}
+): Promise<RetryResult> {
+  let attempt = 0;
+
+  while (true) {
+    attempt++;
+    let response: Response | undefined;
+    try {
+      response = await fetchFrom(platform, url, { signal });
+    } catch (error) {
+      if (signal?.aborted || attempt > retries) throw error;
+    }
+
+    if (response && (response.ok || !isRetryable(response.status) || attempt > retries)) {
+      return { response, attempts: attempt };
+    }
+
+    onRetry?.(attempt, response);
+    await sleep(retryDelay(attempt, baseDelay, response), signal);
+  }
+}
+
+// Run `task` over `items` with at most `limit` in flight, preserving input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { HttpClient, NapChapter, chapterPgn, createStudyClient } from './lichess-study';
+import { NetworkError, StudyAccessError } from './errors';
+import { NormalizedGame } from './games';
+import { parsePGN } from './pgn';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+const game: NormalizedGame = {
+  id: 'abcd1234',
+  platform: 'lichess.org',
+  url: 'https://lichess.org/abcd1234',
+  date: '2024-03-15T12:00:00.000Z',
+  whitePlayer: 'Magnus "DrNykterstein"',
+  blackPlayer: 'back\\slash',
+  userColor: 'black',
+  result: 'win',
+  rating: 2000,
+  opponentRating: 1950,
+  gameType: 'blitz rated',
+  timeControl: '3+2',
+  moves: [
+    { ply: 1, moveNumber: 1, color: 'white', san: 'e4', thinkTime: 1000, fen: AFTER_E4 },
+    { ply: 2, moveNumber: 1, color: 'black', san: 'e5', thinkTime: 42000 }
+  ]
+};
+
+const chapter: NapChapter = { game, ply: 2 };
+
+interface Call {
+  url: string;
+  init: RequestInit;
+}
+
+// Records every request and answers each one with the next queued response
+function fakeServer(responses: Response[]): { http: HttpClient; calls: Call[] } {
+  const calls: Call[] = [];
+  const http: HttpClient = async (url, init) => {
+    calls.push({ url, init });
+    return responses.shift() ?? new Response(null, { status: 200 });
+  };
+  return { http, calls };
+}
+
+describe('chapterPgn', () => {
+  it('starts from the position before the nap and escapes header values', () => {
+    const pgn = chapterPgn(chapter)!;
+    const parsed = parsePGN(pgn)!;
+
+    expect(parsed.headers).toMatchObject({
+      White: 'Magnus "DrNykterstein"',
+      Black: 'back\\slash',
+      FEN: AFTER_E4
+    });
+    expect(parsed.comments[0]).toContain('You spent 42.0s here before playing e5.');
+  });
+});
+
+describe('createStudyClient', () => {
+  it('posts each chapter to the study import endpoint with the token', async () => {
+    const { http, calls } = fakeServer([]);
+    const progress: number[] = [];
+
+    await createStudyClient({ token: 'lip_secret', baseUrl: 'http://localhost:9999', http })
+      .addChapters('AbCd1234', [chapter, chapter], { onProgress: done => progress.push(done) });
+
+    expect(calls).toHaveLength(2);
+    const [{ url, init }] = calls;
+    expect(url).toBe('http://localhost:9999/api/study/AbCd1234/import-pgn');
+    expect(init.method).toBe('POST');
+    expect(new Headers(init.headers).get('Authorization')).toBe('Bearer lip_secret');
+
+    const body = init.body as URLSearchParams;
+    expect(body.get('pgn')).toBe(chapterPgn(chapter));
+    expect(body.get('name')).toBe('Magnus "DrNykterstein" - back\\slash, 1...e5');
+    expect(body.get('orientation')).toBe('black');
+    expect(progress).toEqual([1, 2]);
+  });
+
+  it('creates a private study and returns its ID', async () => {
+    const { http, calls } = fakeServer([Response.json({ id: 'NewStudy' })]);
+
+    const id = await createStudyClient({ token: 'lip_secret', baseUrl: 'http://localhost:9999', http })
+      .createStudy('Naps to review');
+
+    expect(id).toBe('NewStudy');
+    expect(calls[0].url).toBe('http://localhost:9999/api/study');
+    expect(new Headers(calls[0].init.headers).get('Authorization')).toBe('Bearer lip_secret');
+    expect(Object.fromEntries(calls[0].init.body as URLSearchParams)).toEqual({
+      name: 'Naps to review',
+      visibility: 'private'
+    });
+  });
+
+  it('reports a refused token as a study access error', async () => {
+    const { http } = fakeServer([new Response(null, { status: 403 })]);
+    const client = createStudyClient({ token: 'bad', http });
+
+    await expect(client.addChapters('AbCd1234', [chapter])).rejects.toBeInstanceOf(StudyAccessError);
+  });
+
+  it('reports an unreachable server as a network error', async () => {
+    const http: HttpClient = () => Promise.reject(new TypeError('Failed to fetch'));
+    const client = createStudyClient({ token: 'lip_secret', http });
+
+    await expect(client.addChapters('AbCd1234', [chapter])).rejects.toBeInstanceOf(NetworkError);
+  });
+});
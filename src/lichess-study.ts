@@ -0,0 +1,153 @@
+import { NormalizedGame, fenBefore } from './games';
+import { LICHESS_BASE_URL } from './lichess';
+import { MalformedResponseError, NetworkError, RateLimitedError, StudyAccessError, fetchFailure, toGameSourceError } from './errors';
+import { formatTimeSpent } from './format';
+import { pgnHeaderLine } from './export';
+
+// Sends nap positions to a Lichess study, one chapter per position, through the study import API
+
+// Anything shaped like fetch, so the client can be pointed at a fake server
+export type HttpClient = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface StudyClientOptions {
+  // Personal API token with the study:write scope
+  token: string;
+  baseUrl?: string;
+  http?: HttpClient;
+}
+
+export interface NapChapter {
+  game: NormalizedGame;
+  ply: number;
+}
+
+export interface StudyClient {
+  // Start an empty private study and return its ID
+  createStudy(name: string, options?: { signal?: AbortSignal }): Promise<string>;
+  // Add one chapter per nap, in order, reporting after each one
+  addChapters(
+    studyId: string,
+    chapters: NapChapter[],
+    options?: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void }
+  ): Promise<void>;
+}
+
+const TOKEN_STORAGE_KEY = 'lichess-study-token';
+const STUDY_ID_PATTERN = /^[A-Za-z0-9]{8}$/;
+
+export function loadStudyToken(): string {
+  return localStorage.getItem(TOKEN_STORAGE_KEY) ?? '';
+}
+
+export function saveStudyToken(token: string): void {
+  if (token) localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  else localStorage.removeItem(TOKEN_STORAGE_KEY);
+}
+
+// Accept a bare study ID or any study or chapter URL
+export function parseStudyId(input: string): string | undefined {
+  const trimmed = input.trim();
+  if (STUDY_ID_PATTERN.test(trimmed)) return trimmed;
+  const match = trimmed.match(/\/study\/([A-Za-z0-9]{8})(?:[/?#]|$)/);
+  return match?.[1];
+}
+
+function escapeComment(text: string): string {
+  return text.replace(/[{}]/g, '');
+}
+
+export function chapterName({ game, ply }: NapChapter): string {
+  const move = game.moves.find(candidate => candidate.ply === ply);
+  const notation = move ? `${move.moveNumber}${move.color === 'white' ? '.' : '...'}${move.san}` : `ply ${ply}`;
+  return `${game.whitePlayer} - ${game.blackPlayer}, ${notation}`;
+}
+
+// An empty game starting from the position before the nap, with the think time and source link as its comment
+export function chapterPgn({ game, ply }: NapChapter): string | undefined {
+  const fen = fenBefore(game, ply);
+  const move = game.moves.find(candidate => candidate.ply === ply);
+  if (!fen || !move) return undefined;
+
+  const comment = move.thinkTime !== undefined
+    ? `${game.userColor === move.color ? 'You' : 'Your opponent'} spent ${formatTimeSpent(move.thinkTime)} here before playing ${move.san}. ${game.url}`
+    : `Played ${move.san} here. ${game.url}`;
+  return [
+    pgnHeaderLine('White', game.whitePlayer),
+    pgnHeaderLine('Black', game.blackPlayer),
+    pgnHeaderLine('Site', game.url),
+    pgnHeaderLine('SetUp', '1'),
+    pgnHeaderLine('FEN', fen),
+    '',
+    `{${escapeComment(comment)}} *`,
+    ''
+  ].join('\n');
+}
+
+export function createStudyClient({
+  token,
+  baseUrl = LICHESS_BASE_URL,
+  http = (url, init) => fetch(url, init)
+}: StudyClientOptions): StudyClient {
+  // Form-encoded POST with the token, mapping refusals and server trouble onto the error taxonomy
+  const post = async (path: string, fields: Record<string, string>, signal?: AbortSignal) => {
+    const response = await http(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams(fields),
+      signal
+    }).catch(error => {
+      throw fetchFailure(error, 'lichess.org');
+    });
+
+    if (response.status === 401 || response.status === 403 || response.status === 404) {
+      throw new StudyAccessError(response.status);
+    }
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new RateLimitedError('lichess.org', retryAfter > 0 ? retryAfter : undefined);
+    }
+    if (response.status >= 500) throw new NetworkError('lichess.org', response.status);
+    if (!response.ok) throw new MalformedResponseError('lichess.org', response.status);
+    return response;
+  };
+
+  const importChapter = async (studyId: string, chapter: NapChapter, signal?: AbortSignal) => {
+    const pgn = chapterPgn(chapter);
+    if (!pgn) return;
+    await post(`/api/study/${studyId}/import-pgn`, {
+      pgn,
+      name: chapterName(chapter),
+      orientation: chapter.game.userColor
+    }, signal);
+  };
+
+  return {
+    async createStudy(name, { signal } = {}) {
+      try {
+        const response = await post('/api/study', { name, visibility: 'private' }, signal);
+        const data = await response.json();
+        if (typeof data?.id !== 'string' || !STUDY_ID_PATTERN.test(data.id)) {
+          throw new MalformedResponseError('lichess.org', response.status);
+        }
+        return data.id;
+      } catch (error) {
+        throw toGameSourceError(error, 'lichess.org');
+      }
+    },
+
+    async addChapters(studyId, chapters, { signal, onProgress } = {}) {
+      try {
+        // One at a time: Lichess rate limits study writes per user
+        for (let i = 0; i < chapters.length; i++) {
+          await importChapter(studyId, chapters[i], signal);
+          onProgress?.(i + 1, chapters.length);
+        }
+      } catch (error) {
+        throw toGameSourceError(error, 'lichess.org');
+      }
+    }
+  };
+}
@@ -1,4 +1,45 @@
+import { FetchOptions, GameQuery, GameSourceAdapter, Judgment, NormalizedGame, NormalizedMove, STANDARD_FEN, playerColor, plyToMove, resultFor } from './games';
+import { markSynced, readCache, writeCache } from './cache';
+import { EmptyRangeError, errorFromResponse, fetchFailure, toGameSourceError } from './errors';
+import { fetchFrom } from './http';
+import { replaySan, withPositions } from './chess';
+import { resolveOpening } from './openings';
+
+// Site and API root for every Lichess request and link
+export const LICHESS_BASE_URL = 'https://lichess.org';
+
 // Lichess API types and interfaces
+export interface LichessPlayerAnalysis {
+  inaccuracy: number;
+  mistake: number;
+  blunder: number;
+  acpl: number;
+  accuracy?: number;
+}
+
+// One entry per ply; evaluations are from White's side and `best` is only set on judged moves
+export interface LichessMoveAnalysis {
+  eval?: number;
+  mate?: number;
+  best?: string;
+  variation?: string;
+  judgment?: {
+    name: 'Inaccuracy' | 'Mistake' | 'Blunder';
+    comment: string;
+  };
+}
+
+// Anonymous players and the AI have no `user`, and anonymous players no rating either
+export interface LichessPlayer {
+  user?: {
+    name: string;
+  };
+  rating?: number;
+  ratingDiff?: number;
+  aiLevel?: number;
+  analysis?: LichessPlayerAnalysis;
+}
+
 export interface LichessGame {
   id: string;
   createdAt: number;
@@ -9,58 +50,203 @@ export interface LichessGame {
     increment: number;
   };
   players: {
-    white: {
-      user: {
-        name: string;
-      };
-      rating: number;
-      aiLevel?: number;
-    };
-    black: {
-      user: {
-        name: string;
-      };
-      rating: number;
-      aiLevel?: number;
-    };
+    white: LichessPlayer;
+    black: LichessPlayer;
   };
   winner?: 'white' | 'black';
+  status: string;
   speed: string;
   rated: boolean;
   initialFen?: string;
+  opening?: {
+    eco: string;
+    name: string;
+    ply: number;
+  };
+  // Only present for games that were analyzed on Lichess
+  analysis?: LichessMoveAnalysis[];
 }
 
-export interface LichessMove {
-  move: string;
-  clockWhite?: string;
-  clockBlack?: string;
-  timeSpentWhite?: string;
-  timeSpentBlack?: string;
-  moveNumber: number;
-}
+const JUDGMENTS: Record<NonNullable<LichessMoveAnalysis['judgment']>['name'], Judgment> = {
+  Inaccuracy: 'inaccuracy',
+  Mistake: 'mistake',
+  Blunder: 'blunder'
+};
 
 // Utility functions
-function formatClockTime(centiseconds: number): string {
-  const totalSeconds = Math.floor(centiseconds / 100);
-  const minutes = Math.floor(totalSeconds / 60);
-  const seconds = totalSeconds % 60;
-  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+function calculateTimeSpent(currentClock: number | undefined, previousClock: number | undefined, increment: number = 0): number | undefined {
+  if (currentClock === undefined || previousClock === undefined) return undefined;
+
+  const timeSpent = previousClock - currentClock + increment;
+
+  return Math.max(0, timeSpent);
 }
 
-function calculateTimeSpent(currentClock: string | undefined, previousClock: string | undefined, increment: number = 0): string | undefined {
-  if (!currentClock || !previousClock) return undefined;
-  
-  const [currentMin, currentSec] = currentClock.split(':').map(Number);
-  const [previousMin, previousSec] = previousClock.split(':').map(Number);
-  
-  const currentTotal = currentMin * 60 + currentSec;
-  const previousTotal = previousMin * 60 + previousSec;
-  
-  const timeSpent = previousTotal - currentTotal + increment;
-  
-  if (timeSpent <= 0) return undefined;
+function playerName(player: LichessPlayer): string {
+  return player.user?.name ?? 'Anonymous';
+}
+
+function isRelevantGame(game: LichessGame, username: string): boolean {
+  if (game.initialFen && game.initialFen !== STANDARD_FEN) {
+    return false;
+  }
+
+  // Filter out games against AI
+  if (game.players.white.aiLevel !== undefined || game.players.black.aiLevel !== undefined) {
+    return false;
+  }
+
+  const opponent = playerName(game.players.white).toLowerCase() === username.toLowerCase()
+    ? playerName(game.players.black).toLowerCase()
+    : playerName(game.players.white).toLowerCase();
+    
+  // Filter out bots and engine accounts
+  if (opponent.includes('bot') || opponent.includes('stockfish') || opponent.includes('engine')) {
+    return false;
+  }
   
-  return `${timeSpent}s`;
+  return true;
+}
+
+// Copy Lichess's server analysis onto the moves, matching plies by order
+function withServerAnalysis(moves: NormalizedMove[], analysis?: LichessMoveAnalysis[]): NormalizedMove[] {
+  if (!analysis) return moves;
+  return moves.map((move, index) => {
+    const entry = analysis[index];
+    if (!entry) return move;
+    return {
+      ...move,
+      eval: entry.eval,
+      mate: entry.mate,
+      bestMove: entry.best,
+      judgment: entry.judgment && JUDGMENTS[entry.judgment.name]
+    };
+  });
+}
+
+function normalizeLichessGame(game: LichessGame, username: string): NormalizedGame {
+  const userColor = playerColor(playerName(game.players.white), username);
+  const user = userColor === 'white' ? game.players.white : game.players.black;
+  const opponent = userColor === 'white' ? game.players.black : game.players.white;
+  const moves: NormalizedMove[] = [];
+  const movesArray = game.moves.split(' ').filter(move => move.trim());
+  // Lichess reports clocks in centiseconds and the initial time and increment in seconds
+  const initialClock = game.clock ? game.clock.initial * 1000 : undefined;
+  let previousWhiteClock = initialClock;
+  let previousBlackClock = initialClock;
+  const increment = (game.clock?.increment || 0) * 1000;
+
+  for (let i = 0; i < movesArray.length; i++) {
+    const { moveNumber, color } = plyToMove(i + 1);
+    const currentClock = game.clocks && i < game.clocks.length ? game.clocks[i] * 10 : undefined;
+
+    moves.push({
+      ply: i + 1,
+      moveNumber,
+      color,
+      san: movesArray[i],
+      clock: currentClock,
+      thinkTime: calculateTimeSpent(
+        currentClock,
+        color === 'white' ? previousWhiteClock : previousBlackClock,
+        increment
+      )
+    });
+
+    if (color === 'white') {
+      previousWhiteClock = currentClock;
+    } else {
+      previousBlackClock = currentClock;
+    }
+  }
+
+  const replay = replaySan(movesArray, game.initialFen);
+  const positionedMoves = withServerAnalysis(withPositions(moves, replay), game.analysis);
+
+  return {
+    id: game.id,
+    platform: 'lichess.org',
+    url: `${LICHESS_BASE_URL}/${game.id}`,
+    date: new Date(game.createdAt).toISOString(),
+    whitePlayer: playerName(game.players.white),
+    blackPlayer: playerName(game.players.black),
+    userColor,
+    result: resultFor(userColor, game.winner),
+    rating: user.rating ?? 0,
+    opponentRating: opponent.rating ?? 0,
+    ratingDiff: user.ratingDiff,
+    termination: game.status,
+    gameType: `${game.speed}${game.rated ? ' rated' : ' casual'}`,
+    timeControl: game.clock ? `${game.clock.initial/60}+${game.clock.increment}` : '-',
+    clock: game.clock && { initial: game.clock.initial * 1000, increment: game.clock.increment * 1000 },
+    initialFen: game.initialFen,
+    opening: resolveOpening(positionedMoves, game.opening, game.initialFen),
+    moves: positionedMoves,
+    analysis: game.analysis && {
+      source: 'server',
+      accuracy: user.analysis?.accuracy,
+      opponentAccuracy: opponent.analysis?.accuracy
+    },
+    illegalMove: replay.error
+  };
+}
+
+function sortByDate(games: NormalizedGame[]): NormalizedGame[] {
+  return [...games].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+// Parse an NDJSON body line by line as it arrives instead of buffering the whole export
+async function* readNdjson<T>(response: Response): AsyncGenerator<T[]> {
+  if (!response.body) {
+    const text = await response.text();
+    yield text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      // A connection dropped mid-download rejects here rather than in fetch
+      const { done, value } = await reader.read().catch(error => {
+        throw fetchFailure(error, 'lichess.org');
+      });
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() || '';
+
+      const items = lines.filter(line => line.trim()).map(line => JSON.parse(line));
+      if (items.length > 0) {
+        yield items;
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+interface CachedLichessGames {
+  games: LichessGame[];
+  // The createdAt window (ms) that has been fully downloaded
+  from: number;
+  to: number;
+}
+
+// Bumped when the export parameters change so older caches missing those fields are refetched
+const GAMES_CACHE_KEY = 'games-v2';
+// The cache holds every speed we support so it is independent of the game type filter
+const CACHED_PERF_TYPES = ['blitz', 'rapid', 'classical'];
+// Re-download this much before the newest cached game, so games still running at the last sync and analysis
+// requested since then are picked up
+const SYNC_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+function matchesGameType(game: LichessGame, gameType: string): boolean {
+  return gameType === 'all' ? CACHED_PERF_TYPES.includes(game.speed) : game.speed === gameType;
 }
 
 // Main Lichess API function
@@ -68,131 +254,96 @@ export async function fetchLichessGames(
   username: string, 
   gameType: string = 'all',
   startDate?: string,
-  endDate?: string
-): Promise<any[]> {
+  endDate?: string,
+  { signal, onProgress }: FetchOptions = {}
+): Promise<NormalizedGame[]> {
   try {
     const startTimestamp = startDate ? new Date(startDate).getTime() : 0;
-    const endTimestamp = endDate ? new Date(endDate).getTime() : Date.now();
-    
-    // Set perfType based on gameType
-    let perfTypes = '';
-    if (gameType === 'all') {
-      perfTypes = '&perfType=blitz,rapid,classical';
-    } else if (gameType === 'blitz') {
-      perfTypes = '&perfType=blitz';
-    } else if (gameType === 'rapid') {
-      perfTypes = '&perfType=rapid';
-    } else if (gameType === 'classical') {
-      perfTypes = '&perfType=classical';
+    const endTimestamp = Math.min(endDate ? new Date(endDate).getTime() : Date.now(), Date.now());
+
+    // Work out which parts of the requested window are not cached yet: anything before the cached window,
+    // and everything from shortly before the newest cached game on
+    const cached = await readCache<CachedLichessGames>('lichess.org', username, GAMES_CACHE_KEY);
+    let ranges = [{ since: startTimestamp, until: endTimestamp }];
+    let coverage = { from: startTimestamp, to: endTimestamp };
+    if (cached && startTimestamp <= cached.to && endTimestamp >= cached.from) {
+      const newestCached = cached.games.reduce((newest, game) => Math.max(newest, game.createdAt), cached.from);
+      const resume = { since: Math.max(startTimestamp, newestCached - SYNC_OVERLAP_MS), until: endTimestamp };
+      ranges = startTimestamp < cached.from ? [{ since: startTimestamp, until: cached.from }, resume] : [resume];
+      coverage = { from: Math.min(cached.from, startTimestamp), to: Math.max(cached.to, endTimestamp) };
     }
-    
-    const dateParams = `&since=${Math.floor(startTimestamp)}&until=${Math.floor(endTimestamp)}`;
-    
-    const response = await fetch(
-      `https://lichess.org/api/games/user/${username}?tags=true&clocks=true${perfTypes}${dateParams}`,
-      { headers: { 'Accept': 'application/x-ndjson' } }
-    );
-    
-    if (!response.ok) {
-      throw new Error('No games found');
+    ranges = ranges.filter(range => range.since < range.until);
+
+    // Keyed by id, so a game downloaded again in the overlap replaces its cached copy
+    const knownGames = new Map<string, LichessGame>();
+    const filteredGames = new Map<string, NormalizedGame>();
+    const addGame = (game: LichessGame) => {
+      knownGames.set(game.id, game);
+      if (
+        game.createdAt >= startTimestamp &&
+        game.createdAt <= endTimestamp &&
+        matchesGameType(game, gameType) &&
+        isRelevantGame(game, username)
+      ) {
+        filteredGames.set(game.id, normalizeLichessGame(game, username));
+      }
+    };
+
+    cached?.games.forEach(addGame);
+    if (filteredGames.size > 0) {
+      onProgress?.(sortByDate([...filteredGames.values()]));
     }
 
-    const text = await response.text();
-    if (!text.trim()) {
-      throw new Error('No games found');
+    for (const { since, until } of ranges) {
+      const perfTypes = `&perfType=${CACHED_PERF_TYPES.join(',')}`;
+      const dateParams = `&since=${Math.floor(since)}&until=${Math.floor(until)}`;
+
+      const response = await fetchFrom(
+        'lichess.org',
+        `${LICHESS_BASE_URL}/api/games/user/${username}?tags=true&clocks=true&evals=true&accuracy=true&opening=true${perfTypes}${dateParams}`,
+        { headers: { 'Accept': 'application/x-ndjson' }, signal }
+      );
+
+      if (!response.ok) {
+        throw errorFromResponse(response, 'lichess.org', username);
+      }
+
+      for await (const batch of readNdjson<LichessGame>(response)) {
+        batch.forEach(addGame);
+        onProgress?.(sortByDate([...filteredGames.values()]));
+      }
     }
 
-    const games = text.trim().split('\n').map(line => JSON.parse(line));
-    
-    const filteredGames = games
-      .filter((game: LichessGame) => {
-        return !game.initialFen || game.initialFen === 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
-      })
-      .filter((game: LichessGame) => {
-        // Filter out games against AI
-        if (game.players.white.aiLevel !== undefined || game.players.black.aiLevel !== undefined) {
-          return false;
-        }
-
-        const opponent = game.players.white.user.name.toLowerCase() === username.toLowerCase()
-          ? game.players.black.user.name.toLowerCase()
-          : game.players.white.user.name.toLowerCase();
-          
-        // Filter out bots and engine accounts
-        if (opponent.includes('bot') || opponent.includes('stockfish') || opponent.includes('engine')) {
-          return false;
-        }
-        
-        return true;
-      })
-      .map((game: LichessGame) => {
-        const moves: LichessMove[] = [];
-        const movesArray = game.moves.split(' ');
-        let previousWhiteClock: string | undefined;
-        let previousBlackClock: string | undefined;
-        const increment = game.clock?.increment || 0;
-
-        for (let i = 0; i < movesArray.length; i++) {
-          const move = movesArray[i];
-          if (move.trim()) {
-            const isWhiteMove = i % 2 === 0;
-            const currentClock = game.clocks && i < game.clocks.length ? formatClockTime(game.clocks[i]) : undefined;
-            
-            const moveObj: LichessMove = {
-              move,
-              moveNumber: Math.floor(i / 2) + 1,
-              ...(isWhiteMove 
-                ? { 
-                    clockWhite: currentClock,
-                    timeSpentWhite: calculateTimeSpent(currentClock, previousWhiteClock, increment)
-                  }
-                : {
-                    clockBlack: currentClock,
-                    timeSpentBlack: calculateTimeSpent(currentClock, previousBlackClock, increment)
-                  }
-              )
-            };
-
-            if (isWhiteMove) {
-              previousWhiteClock = currentClock;
-            } else {
-              previousBlackClock = currentClock;
-            }
-
-            moves.push(moveObj);
-          }
-        }
-
-        return {
-          id: game.id,
-          date: new Date(game.createdAt).toISOString(),
-          whitePlayer: game.players.white.user.name,
-          blackPlayer: game.players.black.user.name,
-          result: game.winner 
-            ? (game.winner === 'white' ? 'win' : 'loss')
-            : 'draw',
-          rating: game.players.white.rating,
-          gameType: `${game.speed}${game.rated ? ' rated' : ' casual'}`,
-          timeControl: game.clock ? `${game.clock.initial/60}+${game.clock.increment}` : '-',
-          moves,
-          expanded: false
-        };
-      })
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-    if (filteredGames.length === 0) {
-      throw new Error('No games found');
+    if (ranges.length > 0) {
+      await writeCache<CachedLichessGames>('lichess.org', username, GAMES_CACHE_KEY, {
+        games: [...knownGames.values()],
+        ...coverage
+      });
+      await markSynced('lichess.org', username);
     }
 
-    return filteredGames;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
+    if (filteredGames.size === 0) {
+      throw new EmptyRangeError();
     }
-    throw new Error('No games found');
+
+    return sortByDate([...filteredGames.values()]);
+  } catch (error) {
+    throw toGameSourceError(error, 'lichess.org');
   }
 }
 
 export function openLichessPosition(gameId: string, moveNumber: number): void {
-  window.open(`https://lichess.org/${gameId}#${moveNumber}`, '_blank');
-}
\ No newline at end of file
+  window.open(`${LICHESS_BASE_URL}/${gameId}#${moveNumber}`, '_blank');
+}
+
+export const lichessAdapter: GameSourceAdapter = {
+  platform: 'lichess.org',
+  label: 'Lichess.org',
+  input: 'username',
+  cached: true,
+  gameTypes: ['all', 'blitz', 'rapid', 'classical'],
+  fetchGames: async ({ username, startDate, endDate, gameType }: GameQuery, options?: FetchOptions) => ({
+    games: await fetchLichessGames(username, gameType, startDate, endDate, options)
+  }),
+  openPosition: (game, ply) => openLichessPosition(game.id, ply)
+};
@@ -0,0 +1,72 @@
+import { NormalizedGame, NormalizedMove } from './games';
+import { moveLosses } from './analysis';
+
+// Fixed cut-offs for the headline stats, independent of the adjustable nap threshold
+export const QUICK_MOVE_MS = 5000;
+export const LONG_NAP_MS = 60000;
+
+export type NapQuadrant = 'nap-good' | 'nap-bad' | 'quick-good' | 'quick-bad';
+
+export const QUADRANT_LABELS: Record<NapQuadrant, string> = {
+  'nap-good': 'Long think, good move',
+  'nap-bad': 'Long think, mistake or blunder',
+  'quick-good': 'Quick move, good move',
+  'quick-bad': 'Quick move, mistake or blunder'
+};
+
+// One of the player's own moves with both a think time and an evaluation
+export interface NapPoint {
+  game: NormalizedGame;
+  move: NormalizedMove;
+  thinkTime: number;
+  // Drop in the player's winning chances, in percentage points
+  loss: number;
+}
+
+export interface NapPayoffStats {
+  quadrants: Record<NapQuadrant, number>;
+  quickBlunders: number;
+  longBlunders: number;
+  blunders: number;
+  // Average think time in milliseconds before each kind of move
+  averageThinkBeforeBad?: number;
+  averageThinkBeforeGood?: number;
+}
+
+function isBad(move: NormalizedMove): boolean {
+  return move.judgment === 'mistake' || move.judgment === 'blunder';
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+}
+
+export function napPoints(games: NormalizedGame[]): NapPoint[] {
+  return games.flatMap(game => {
+    const losses = moveLosses(game);
+    return game.moves
+      .filter(move => move.color === game.userColor && move.thinkTime !== undefined && losses.has(move.ply))
+      .map(move => ({ game, move, thinkTime: move.thinkTime!, loss: losses.get(move.ply)! }));
+  });
+}
+
+export function quadrantOf(point: NapPoint, isNap: (game: NormalizedGame, move: NormalizedMove) => boolean): NapQuadrant {
+  const speed = isNap(point.game, point.move) ? 'nap' : 'quick';
+  const quality = isBad(point.move) ? 'bad' : 'good';
+  return `${speed}-${quality}` as const;
+}
+
+export function napPayoffStats(points: NapPoint[], isNap: (game: NormalizedGame, move: NormalizedMove) => boolean): NapPayoffStats {
+  const quadrants: Record<NapQuadrant, number> = { 'nap-good': 0, 'nap-bad': 0, 'quick-good': 0, 'quick-bad': 0 };
+  for (const point of points) quadrants[quadrantOf(point, isNap)]++;
+
+  const blunders = points.filter(point => point.move.judgment === 'blunder');
+  return {
+    quadrants,
+    quickBlunders: blunders.filter(point => point.thinkTime < QUICK_MOVE_MS).length,
+    longBlunders: blunders.filter(point => point.thinkTime > LONG_NAP_MS).length,
+    blunders: blunders.length,
+    averageThinkBeforeBad: average(points.filter(point => isBad(point.move)).map(point => point.thinkTime)),
+    averageThinkBeforeGood: average(points.filter(point => !isBad(point.move)).map(point => point.thinkTime))
+  };
+}
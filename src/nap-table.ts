@@ -0,0 +1,156 @@
+import { GamePhase, GameResult, NormalizedGame, NormalizedMove, estimatedDuration } from './games';
+import { phaseOf } from './clock-stats';
+import { NapMode, napMeasure } from './nap-threshold';
+
+// Rows, filters, sorting and optional columns of the nap table
+
+export interface NapRow {
+  game: NormalizedGame;
+  move: NormalizedMove;
+  ply: number;
+  // Think time in the nap threshold's unit
+  measure?: number;
+  opponent: string;
+  phase: GamePhase;
+}
+
+export type NapColumn = 'opponentRating' | 'result' | 'opening' | 'clock';
+
+export const OPTIONAL_COLUMNS: { key: NapColumn; label: string }[] = [
+  { key: 'opponentRating', label: 'Opponent Rating' },
+  { key: 'result', label: 'Result' },
+  { key: 'opening', label: 'Opening' },
+  { key: 'clock', label: 'Clock Left' }
+];
+
+export const DEFAULT_COLUMNS: NapColumn[] = ['opening'];
+
+export type NapSortKey = 'date' | 'opponent' | 'timeControl' | 'move' | 'time' | NapColumn;
+
+export interface NapSort {
+  key: NapSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_SORT: NapSort = { key: 'time', direction: 'desc' };
+
+// Numbers and dates start biggest or newest first, names alphabetically
+export const DEFAULT_DIRECTIONS: Record<NapSortKey, NapSort['direction']> = {
+  date: 'desc',
+  opponent: 'asc',
+  timeControl: 'asc',
+  move: 'asc',
+  time: 'desc',
+  opponentRating: 'desc',
+  result: 'asc',
+  opening: 'asc',
+  clock: 'desc'
+};
+
+export interface NapFilters {
+  result: GameResult | 'all';
+  rated: 'all' | 'rated' | 'casual';
+  minOpponentRating?: number;
+  maxOpponentRating?: number;
+  minMoveNumber?: number;
+  maxMoveNumber?: number;
+  phase: GamePhase | 'all';
+  opponent: string;
+}
+
+export const EMPTY_FILTERS: NapFilters = { result: 'all', rated: 'all', phase: 'all', opponent: '' };
+
+const RESULT_ORDER: Record<GameResult, number> = { win: 0, draw: 1, loss: 2 };
+
+export function napRows(
+  games: NormalizedGame[],
+  isNap: (game: NormalizedGame, move: NormalizedMove) => boolean,
+  mode: NapMode
+): NapRow[] {
+  return games.flatMap(game => game.moves
+    .filter(move => move.color === game.userColor && isNap(game, move))
+    .map(move => ({
+      game,
+      move,
+      ply: move.ply,
+      measure: napMeasure(mode, game, move),
+      opponent: game.userColor === 'white' ? game.blackPlayer : game.whitePlayer,
+      phase: phaseOf(move)
+    }))
+  );
+}
+
+// Rated or casual as the sources spell it in gameType; PGN files don't say
+export function isRated(game: NormalizedGame): boolean | undefined {
+  if (/\brated\b/.test(game.gameType)) return true;
+  if (/\bcasual\b/.test(game.gameType)) return false;
+  return undefined;
+}
+
+function inRange(value: number, min?: number, max?: number): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+export function matchesFilters(row: NapRow, filters: NapFilters): boolean {
+  const { game, move } = row;
+  if (filters.result !== 'all' && game.result !== filters.result) return false;
+  if (filters.rated !== 'all' && isRated(game) !== (filters.rated === 'rated')) return false;
+  if (!inRange(game.opponentRating, filters.minOpponentRating, filters.maxOpponentRating)) return false;
+  if (!inRange(move.moveNumber, filters.minMoveNumber, filters.maxMoveNumber)) return false;
+  if (filters.phase !== 'all' && row.phase !== filters.phase) return false;
+  const opponent = filters.opponent.trim().toLowerCase();
+  return !opponent || row.opponent.toLowerCase().includes(opponent);
+}
+
+export function activeFilterCount(filters: NapFilters): number {
+  return [
+    filters.result !== 'all',
+    filters.rated !== 'all',
+    filters.minOpponentRating !== undefined || filters.maxOpponentRating !== undefined,
+    filters.minMoveNumber !== undefined || filters.maxMoveNumber !== undefined,
+    filters.phase !== 'all',
+    filters.opponent.trim() !== ''
+  ].filter(Boolean).length;
+}
+
+function compareValues(a: number | string | undefined, b: number | string | undefined): number {
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  return (a as number) - (b as number);
+}
+
+function sortValue(row: NapRow, key: NapSortKey): number | string | undefined {
+  switch (key) {
+    case 'date':
+      return new Date(row.game.date).getTime();
+    case 'opponent':
+      return row.opponent.toLowerCase();
+    case 'timeControl':
+      return row.game.clock ? estimatedDuration(row.game.clock.initial, row.game.clock.increment) : undefined;
+    case 'move':
+      return row.ply;
+    case 'time':
+      return row.move.thinkTime;
+    case 'opponentRating':
+      return row.game.opponentRating;
+    case 'result':
+      return RESULT_ORDER[row.game.result];
+    case 'opening':
+      return row.game.opening ? `${row.game.opening.eco ?? ''} ${row.game.opening.name}` : undefined;
+    case 'clock':
+      return row.move.clock;
+  }
+}
+
+// Rows missing the sorted value always go last, whichever the direction
+export function sortNapRows(rows: NapRow[], { key, direction }: NapSort): NapRow[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return rows
+    .map(row => ({ row, value: sortValue(row, key) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return (a.value === undefined ? 1 : 0) - (b.value === undefined ? 1 : 0);
+      }
+      return sign * compareValues(a.value, b.value);
+    })
+    .map(({ row }) => row);
+}
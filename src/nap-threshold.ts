@@ -0,0 +1,128 @@
+import { NormalizedGame, NormalizedMove, clockBefore } from './games';
+import { formatTimeSpent } from './format';
+
+// How a move's think time is compared against the threshold
+export type NapMode = 'seconds' | 'base-percent' | 'median-multiple' | 'clock-percent';
+
+export interface NapThreshold {
+  mode: NapMode;
+  value: number;
+}
+
+export const NAP_MODES: Record<NapMode, { label: string; defaultValue: number }> = {
+  'seconds': { label: 'Time spent', defaultValue: 20 },
+  'base-percent': { label: '% of base time', defaultValue: 10 },
+  'median-multiple': { label: '× my median move', defaultValue: 4 },
+  'clock-percent': { label: '% of clock left', defaultValue: 25 }
+};
+
+// Starting threshold for daily games, where every move routinely takes hours
+export const CORRESPONDENCE_NAP_SECONDS = 12 * 3600;
+
+// Daily games need thresholds in hours, so sets of live and daily games share no single time
+export type ClockKind = 'live' | 'daily' | 'mixed';
+
+export function clockKind(games: NormalizedGame[]): ClockKind {
+  const daily = games.filter(game => game.clock?.perMove).length;
+  if (daily === 0) return 'live';
+  return daily === games.length ? 'daily' : 'mixed';
+}
+
+// The threshold used until the user picks one; mixed sets are measured against each game's own clock
+export function defaultNapThreshold(kind: ClockKind): NapThreshold {
+  switch (kind) {
+    case 'live':
+      return { mode: 'seconds', value: NAP_MODES.seconds.defaultValue };
+    case 'daily':
+      return { mode: 'seconds', value: CORRESPONDENCE_NAP_SECONDS };
+    case 'mixed':
+      return { mode: 'base-percent', value: NAP_MODES['base-percent'].defaultValue };
+  }
+}
+
+// Units a time threshold can be entered and shown in
+export const TIME_UNITS = [
+  { label: 'sec', seconds: 1 },
+  { label: 'min', seconds: 60 },
+  { label: 'hours', seconds: 3600 },
+  { label: 'days', seconds: 86400 }
+] as const;
+
+export type TimeUnit = typeof TIME_UNITS[number];
+
+// The largest unit the value is a whole number of, so 43200 s reads as 12 hours
+export function bestTimeUnit(seconds: number): TimeUnit {
+  return [...TIME_UNITS].reverse().find(unit => seconds >= unit.seconds && seconds % unit.seconds === 0) ?? TIME_UNITS[0];
+}
+
+const medianCache = new WeakMap<NormalizedGame, number | undefined>();
+
+// The player's median think time in one game, so naps are judged against their own pace
+function medianThinkTime(game: NormalizedGame): number | undefined {
+  if (medianCache.has(game)) return medianCache.get(game);
+  const times = game.moves
+    .filter(move => move.color === game.userColor && move.thinkTime !== undefined)
+    .map(move => move.thinkTime!)
+    .sort((a, b) => a - b);
+  const middle = Math.floor(times.length / 2);
+  const median = times.length === 0
+    ? undefined
+    : times.length % 2 === 1 ? times[middle] : (times[middle - 1] + times[middle]) / 2;
+  medianCache.set(game, median);
+  return median;
+}
+
+// A move's think time in the threshold's own unit, or undefined when the game lacks the data for it
+export function napMeasure(mode: NapMode, game: NormalizedGame, move: NormalizedMove): number | undefined {
+  if (move.thinkTime === undefined) return undefined;
+
+  switch (mode) {
+    case 'seconds':
+      return move.thinkTime / 1000;
+    case 'base-percent':
+      return game.clock?.initial ? (move.thinkTime / game.clock.initial) * 100 : undefined;
+    case 'median-multiple': {
+      const median = medianThinkTime(game);
+      return median ? move.thinkTime / median : undefined;
+    }
+    case 'clock-percent': {
+      const remaining = clockBefore(game, move);
+      return remaining ? (move.thinkTime / remaining) * 100 : undefined;
+    }
+  }
+}
+
+export function napDetector({ mode, value }: NapThreshold): (game: NormalizedGame, move: NormalizedMove) => boolean {
+  return (game, move) => {
+    const measure = napMeasure(mode, game, move);
+    return measure !== undefined && measure >= value;
+  };
+}
+
+export function formatNapMeasure(mode: NapMode, measure: number): string {
+  switch (mode) {
+    case 'seconds':
+      return formatTimeSpent(measure * 1000);
+    case 'median-multiple':
+      return `${measure.toFixed(1)}× median`;
+    case 'base-percent':
+      return `${Math.round(measure)}% of base`;
+    case 'clock-percent':
+      return `${Math.round(measure)}% of clock`;
+  }
+}
+
+export function describeNapThreshold({ mode, value }: NapThreshold): string {
+  switch (mode) {
+    case 'seconds': {
+      const unit = bestTimeUnit(value);
+      return `${value / unit.seconds} ${unit.label} or longer`;
+    }
+    case 'base-percent':
+      return `${value}% of base time or more`;
+    case 'median-multiple':
+      return `${value}× your median move time or more`;
+    case 'clock-percent':
+      return `${value}% of your remaining clock or more`;
+  }
+}
@@ -0,0 +1,198 @@
+import { GameResult, NormalizedGame, NormalizedMove, Opening, STANDARD_FEN } from './games';
+
+// A compact table of common main lines, used to name games that arrive without a classification
+// and to tell how far a game followed known theory. Longer matches win.
+const ECO_LINES: [string, string, string][] = [
+  ['A00', 'Polish Opening', 'b4'],
+  ['A00', 'Grob Opening', 'g4'],
+  ['A01', 'Nimzo-Larsen Attack', 'b3'],
+  ['A02', "Bird's Opening", 'f4'],
+  ['A04', 'Zukertort Opening', 'Nf3'],
+  ['A09', 'Réti Opening', 'Nf3 d5 c4'],
+  ['A10', 'English Opening', 'c4'],
+  ['A20', "English Opening: King's English Variation", 'c4 e5'],
+  ['A40', "Queen's Pawn Game", 'd4'],
+  ['A43', 'Benoni Defense: Old Benoni', 'd4 c5'],
+  ['A45', 'Indian Defense', 'd4 Nf6'],
+  ['A56', 'Benoni Defense', 'd4 Nf6 c4 c5'],
+  ['A57', 'Benko Gambit', 'd4 Nf6 c4 c5 d5 b5'],
+  ['A80', 'Dutch Defense', 'd4 f5'],
+  ['B00', 'Nimzowitsch Defense', 'e4 Nc6'],
+  ['B00', 'Pirc Defense', 'e4 d6'],
+  ['B01', 'Scandinavian Defense', 'e4 d5'],
+  ['B02', 'Alekhine Defense', 'e4 Nf6'],
+  ['B06', 'Modern Defense', 'e4 g6'],
+  ['B07', 'Pirc Defense', 'e4 d6 d4 Nf6'],
+  ['B10', 'Caro-Kann Defense', 'e4 c6'],
+  ['B12', 'Caro-Kann Defense: Advance Variation', 'e4 c6 d4 d5 e5'],
+  ['B13', 'Caro-Kann Defense: Exchange Variation', 'e4 c6 d4 d5 exd5 cxd5'],
+  ['B20', 'Sicilian Defense', 'e4 c5'],
+  ['B21', 'Sicilian Defense: Smith-Morra Gambit', 'e4 c5 d4 cxd4 c3'],
+  ['B22', 'Sicilian Defense: Alapin Variation', 'e4 c5 c3'],
+  ['B23', 'Sicilian Defense: Closed', 'e4 c5 Nc3'],
+  ['B30', 'Sicilian Defense: Old Sicilian', 'e4 c5 Nf3 Nc6'],
+  ['B33', 'Sicilian Defense: Lasker-Pelikan Variation', 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5'],
+  ['B40', 'Sicilian Defense: French Variation', 'e4 c5 Nf3 e6'],
+  ['B50', 'Sicilian Defense: Modern Variations', 'e4 c5 Nf3 d6'],
+  ['B54', 'Sicilian Defense: Open', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4'],
+  ['B70', 'Sicilian Defense: Dragon Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6'],
+  ['B90', 'Sicilian Defense: Najdorf Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6'],
+  ['C00', 'French Defense', 'e4 e6'],
+  ['C01', 'French Defense: Exchange Variation', 'e4 e6 d4 d5 exd5'],
+  ['C02', 'French Defense: Advance Variation', 'e4 e6 d4 d5 e5'],
+  ['C03', 'French Defense: Tarrasch Variation', 'e4 e6 d4 d5 Nd2'],
+  ['C10', 'French Defense: Paulsen Variation', 'e4 e6 d4 d5 Nc3'],
+  ['C20', "King's Pawn Game", 'e4 e5'],
+  ['C21', 'Center Game', 'e4 e5 d4 exd4'],
+  ['C23', "Bishop's Opening", 'e4 e5 Bc4'],
+  ['C25', 'Vienna Game', 'e4 e5 Nc3'],
+  ['C30', "King's Gambit", 'e4 e5 f4'],
+  ['C33', "King's Gambit Accepted", 'e4 e5 f4 exf4'],
+  ['C40', "King's Knight Opening", 'e4 e5 Nf3'],
+  ['C41', 'Philidor Defense', 'e4 e5 Nf3 d6'],
+  ['C42', "Petrov's Defense", 'e4 e5 Nf3 Nf6'],
+  ['C44', 'Scotch Game', 'e4 e5 Nf3 Nc6 d4'],
+  ['C46', 'Three Knights Opening', 'e4 e5 Nf3 Nc6 Nc3'],
+  ['C47', 'Four Knights Game', 'e4 e5 Nf3 Nc6 Nc3 Nf6'],
+  ['C50', 'Italian Game', 'e4 e5 Nf3 Nc6 Bc4'],
+  ['C50', 'Italian Game: Giuoco Piano', 'e4 e5 Nf3 Nc6 Bc4 Bc5'],
+  ['C51', 'Italian Game: Evans Gambit', 'e4 e5 Nf3 Nc6 Bc4 Bc5 b4'],
+  ['C55', 'Italian Game: Two Knights Defense', 'e4 e5 Nf3 Nc6 Bc4 Nf6'],
+  ['C57', 'Italian Game: Two Knights Defense, Knight Attack', 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5'],
+  ['C60', 'Ruy Lopez', 'e4 e5 Nf3 Nc6 Bb5'],
+  ['C65', 'Ruy Lopez: Berlin Defense', 'e4 e5 Nf3 Nc6 Bb5 Nf6'],
+  ['C68', 'Ruy Lopez: Exchange Variation', 'e4 e5 Nf3 Nc6 Bb5 a6 Bxc6'],
+  ['C70', 'Ruy Lopez: Morphy Defense', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4'],
+  ['C84', 'Ruy Lopez: Closed', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7'],
+  ['D00', "Queen's Pawn Game", 'd4 d5'],
+  ['D00', "Queen's Pawn Game: Accelerated London System", 'd4 d5 Bf4'],
+  ['D02', 'London System', 'd4 d5 Nf3 Nf6 Bf4'],
+  ['D06', "Queen's Gambit", 'd4 d5 c4'],
+  ['D07', "Queen's Gambit Declined: Chigorin Defense", 'd4 d5 c4 Nc6'],
+  ['D10', 'Slav Defense', 'd4 d5 c4 c6'],
+  ['D20', "Queen's Gambit Accepted", 'd4 d5 c4 dxc4'],
+  ['D30', "Queen's Gambit Declined", 'd4 d5 c4 e6'],
+  ['D43', 'Semi-Slav Defense', 'd4 d5 c4 e6 Nc3 Nf6 Nf3 c6'],
+  ['D80', 'Grünfeld Defense', 'd4 Nf6 c4 g6 Nc3 d5'],
+  ['E00', 'Catalan Opening', 'd4 Nf6 c4 e6 g3'],
+  ['E12', "Queen's Indian Defense", 'd4 Nf6 c4 e6 Nf3 b6'],
+  ['E20', 'Nimzo-Indian Defense', 'd4 Nf6 c4 e6 Nc3 Bb4'],
+  ['E60', "King's Indian Defense", 'd4 Nf6 c4 g6']
+];
+
+const BOOK = ECO_LINES
+  .map(([eco, name, line]) => ({ eco, name, moves: line.split(' ') }))
+  .sort((a, b) => b.moves.length - a.moves.length);
+
+const RESULT_POINTS: Record<GameResult, number> = { win: 1, draw: 0.5, loss: 0 };
+
+export interface OpeningNapStats {
+  eco?: string;
+  name: string;
+  games: number;
+  // Points per game from the player's side, 0..1
+  score: number;
+  moves: number;
+  totalThink: number;
+  averageThink?: number;
+  naps: number;
+  // Games whose first move after the known theory was a nap
+  outOfBookNaps: number;
+}
+
+function bareSan(san: string): string {
+  return san.replace(/[+#!?]+$/, '').replace(/^0-0(-0)?$/, castle => castle.replace(/0/g, 'O'));
+}
+
+// Longest bundled line the game starts with, optionally only among the lines filed under `eco`
+export function matchBookLine(sans: string[], eco?: string): Opening | undefined {
+  const played = sans.map(bareSan);
+  const line = BOOK.find(entry =>
+    (!eco || entry.eco === eco) && entry.moves.every((move, index) => played[index] === move)
+  );
+  return line && { eco: line.eco, name: line.name, ply: line.moves.length };
+}
+
+// Merge whatever classification the source sent with the bundled table, which supplies the theory depth
+export function resolveOpening(
+  moves: NormalizedMove[],
+  provided?: Partial<Opening>,
+  initialFen?: string
+): Opening | undefined {
+  const sans = moves.map(move => move.san);
+  const standardStart = !initialFen || initialFen === STANDARD_FEN;
+  const book = standardStart ? matchBookLine(sans) : undefined;
+  const eco = provided?.eco;
+  const name = provided?.name;
+
+  if (!eco) {
+    return name ? { eco: book?.eco, name, ply: provided?.ply ?? book?.ply } : book;
+  }
+
+  // Theory depth comes from the line the source classified the game under; another line's depth would
+  // put "out of book" in the wrong place, so with no bundled line for that ECO there is none
+  const line = book?.eco === eco ? book : standardStart ? matchBookLine(sans, eco) : undefined;
+  return {
+    eco,
+    name: name ?? line?.name ?? eco,
+    ply: provided?.ply ?? line?.ply
+  };
+}
+
+// chess.com only sends ECOUrl slugs such as "Sicilian-Defense-Old-Sicilian-Variation-3.d4"
+export function openingFromEcoUrl(url?: string): string | undefined {
+  const slug = url?.split('/openings/')[1];
+  if (!slug) return undefined;
+  const words = decodeURIComponent(slug).split('-');
+  const moveIndex = words.findIndex(word => /^\d+\./.test(word));
+  return (moveIndex >= 0 ? words.slice(0, moveIndex) : words).join(' ');
+}
+
+// The player's first move once the game left the theory recorded on its opening
+export function firstMoveOutOfBook(game: NormalizedGame): NormalizedMove | undefined {
+  const ply = game.opening?.ply;
+  if (ply === undefined) return undefined;
+  return game.moves.find(move => move.ply > ply && move.color === game.userColor);
+}
+
+export function openingNapStats(
+  games: NormalizedGame[],
+  isNap: (game: NormalizedGame, move: NormalizedMove) => boolean
+): OpeningNapStats[] {
+  const groups = new Map<string, NormalizedGame[]>();
+  for (const game of games) {
+    const key = game.opening ? `${game.opening.eco ?? ''} ${game.opening.name}` : '';
+    const group = groups.get(key);
+    if (group) {
+      group.push(game);
+    } else {
+      groups.set(key, [game]);
+    }
+  }
+
+  return [...groups.values()]
+    .map(group => {
+      const userMoves = group.flatMap(game => game.moves
+        .filter(move => move.color === game.userColor && move.thinkTime !== undefined)
+        .map(move => ({ game, move }))
+      );
+      const totalThink = userMoves.reduce((total, { move }) => total + move.thinkTime!, 0);
+      const outOfBook = group.filter(game => {
+        const move = firstMoveOutOfBook(game);
+        return move?.thinkTime !== undefined && isNap(game, move);
+      });
+
+      return {
+        eco: group[0].opening?.eco,
+        name: group[0].opening?.name ?? 'Unknown opening',
+        games: group.length,
+        score: group.reduce((total, game) => total + RESULT_POINTS[game.result], 0) / group.length,
+        moves: userMoves.length,
+        totalThink,
+        averageThink: userMoves.length > 0 ? totalThink / userMoves.length : undefined,
+        naps: userMoves.filter(({ game, move }) => isNap(game, move)).length,
+        outOfBookNaps: outOfBook.length
+      };
+    })
+    .sort((a, b) => b.totalThink - a.totalThink);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { loadPgnGames } from './pgn-file';
+
+const file = (text: string) => ({ name: 'games.pgn', text, lastModified: 0 });
+
+const game = (timeControl: string, movetext: string) =>
+  `[White "me"]\n[Black "them"]\n[Date "2024.03.15"]\n[TimeControl "${timeControl}"]\n\n${movetext}`;
+
+describe('loadPgnGames', () => {
+  it('reads a FIDE multi-period control into base, increment and later periods', async () => {
+    const [loaded] = await loadPgnGames(file(game('40/5400:1800+30', '1. d4 {[%clk 1:29:40]} 1-0')), 'me');
+
+    expect(loaded.clock).toEqual({ initial: 5400 * 1000, increment: 30 * 1000 });
+    expect(loaded.timeControl).toBe('90+30 (+30 at move 40)');
+    expect(loaded.gameType).toBe('classical');
+    expect(loaded.moves[0].thinkTime).toBe(50 * 1000);
+  });
+
+  it('credits the next period once a side reaches its move count', async () => {
+    const [loaded] = await loadPgnGames(file(game('2/600:300+5', [
+      '1. e4 {[%clk 0:09:55]} e5 {[%clk 0:09:50]}',
+      '2. Nf3 {[%clk 0:14:55]} Nc6 {[%clk 0:14:40]}',
+      '3. Bb5 {[%clk 0:14:45]} 1-0'
+    ].join(' '))), 'me');
+
+    expect(loaded.moves.map(move => move.thinkTime! / 1000)).toEqual([10, 15, 5, 15, 15]);
+  });
+
+  it('leaves out unfinished games', async () => {
+    const games = await loadPgnGames(file([game('600+5', '1. e4 e5 1-0'), game('600+5', '1. d4 d5 *')].join('\n\n')), 'me');
+
+    expect(games).toHaveLength(1);
+    expect(games[0].result).toBe('win');
+  });
+});
@@ -0,0 +1,145 @@
+import { GAME_TYPES, GameQuery, GameSourceAdapter, NormalizedGame, Color, UploadedFile, playerColor, resultFor, speedOfClock } from './games';
+import { EmptyRangeError, MalformedResponseError, UserNotFoundError } from './errors';
+import { gameClock, normalizePgnMoves, parseDailySeconds, parseTimeControl, parseTimeControlSeconds } from './chess-com';
+import { PgnGame, parsePGNGames } from './pgn';
+import { resolveOpening } from './openings';
+import { LICHESS_BASE_URL } from './lichess';
+
+// Games loaded from a PGN file the user picks (OTB/DGT exports, other servers)
+
+// Lichess's speed buckets, with daily controls on their own and games without a clock as classical
+function classifySpeed(timeControl?: string): string {
+  if (timeControl && parseDailySeconds(timeControl)) return 'daily';
+  const control = timeControl ? parseTimeControlSeconds(timeControl) : null;
+  return control ? speedOfClock(control.base, control.increment) : 'classical';
+}
+
+// PGN dates look like "2024.03.15" and may contain "??" for unknown parts
+function parseGameDate(headers: Record<string, string>): Date | null {
+  const date = headers.UTCDate || headers.Date;
+  const match = date ? /^(\d{4})\.(\d{2})\.(\d{2})$/.exec(date) : null;
+  if (!match) return null;
+
+  const time = headers.UTCTime || headers.Time || '00:00:00';
+  const parsed = new Date(`${match[1]}-${match[2]}-${match[3]}T${time}${headers.UTCDate ? 'Z' : ''}`);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function winnerFromResult(result: string): Color | undefined {
+  if (result === '1-0') return 'white';
+  if (result === '0-1') return 'black';
+  return undefined;
+}
+
+function normalizePgnGame(game: PgnGame, index: number, username: string, fallbackDate: Date): NormalizedGame {
+  const { headers } = game;
+  const whitePlayer = headers.White || 'White';
+  const blackPlayer = headers.Black || 'Black';
+  const userColor = playerColor(whitePlayer, username);
+  const date = parseGameDate(headers) || fallbackDate;
+  const whiteElo = parseInt(headers.WhiteElo) || 0;
+  const { moves, illegalMove } = normalizePgnMoves(game);
+  const blackElo = parseInt(headers.BlackElo) || 0;
+
+  return {
+    id: `pgn-${index}-${whitePlayer}-${blackPlayer}-${date.getTime()}`,
+    platform: 'pgn',
+    url: headers.Site && /^https?:\/\//.test(headers.Site) ? headers.Site : '',
+    date: date.toISOString(),
+    whitePlayer,
+    blackPlayer,
+    userColor,
+    result: resultFor(userColor, winnerFromResult(game.result)),
+    rating: userColor === 'white' ? whiteElo : blackElo,
+    opponentRating: userColor === 'white' ? blackElo : whiteElo,
+    termination: headers.Termination,
+    gameType: classifySpeed(headers.TimeControl),
+    timeControl: headers.TimeControl ? parseTimeControl(headers.TimeControl) : '-',
+    clock: gameClock(headers.TimeControl),
+    initialFen: headers.FEN,
+    opening: resolveOpening(moves, {
+      eco: headers.ECO,
+      name: headers.Opening && (headers.Variation ? `${headers.Opening}: ${headers.Variation}` : headers.Opening)
+    }, headers.FEN),
+    moves,
+    illegalMove
+  };
+}
+
+// Player names in a PGN file, most frequent first, so the user can pick which one is "me"
+export function listPgnPlayers(pgn: string): string[] {
+  const counts = new Map<string, number>();
+  for (const match of pgn.matchAll(/\[(?:White|Black)\s+"([^"]*)"\]/g)) {
+    counts.set(match[1], (counts.get(match[1]) || 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+}
+
+export async function loadPgnGames(
+  file: UploadedFile,
+  username: string,
+  gameType: string = 'all',
+  startDate?: string,
+  endDate?: string
+): Promise<NormalizedGame[]> {
+  const startTimestamp = startDate ? new Date(startDate).getTime() : 0;
+  const endTimestamp = endDate ? new Date(endDate).getTime() : Infinity;
+  // Games without a usable date header are dated by the file itself
+  const fallbackDate = new Date(file.lastModified || Date.now());
+
+  const parsed = parsePGNGames(file.text);
+  if (parsed.length === 0) {
+    throw new MalformedResponseError('pgn');
+  }
+
+  const userGames = parsed
+    .map((game, index) => ({ game, index }))
+    .filter(({ game }) =>
+      [game.headers.White, game.headers.Black].some(name => name?.toLowerCase() === username.toLowerCase())
+    );
+  if (userGames.length === 0) {
+    throw new UserNotFoundError('pgn', username);
+  }
+
+  // Unfinished games ("*") have no result to count, as on the servers, which only list finished games
+  const games = userGames
+    .filter(({ game }) => game.result !== '*')
+    .map(({ game, index }) => normalizePgnGame(game, index, username, fallbackDate))
+    .filter(game => {
+      const timestamp = new Date(game.date).getTime();
+      return timestamp >= startTimestamp && timestamp <= endTimestamp;
+    })
+    .filter(game => gameType === 'all' || game.gameType === gameType)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  if (games.length === 0) {
+    throw new EmptyRangeError();
+  }
+
+  return games;
+}
+
+// Without a source site to link to, open the game on Lichess's analysis board
+export function openPgnPosition(game: NormalizedGame, ply: number): void {
+  if (game.url) {
+    window.open(game.url, '_blank');
+    return;
+  }
+  const moves = game.moves.map(move => move.san).join(' ');
+  window.open(`${LICHESS_BASE_URL}/analysis/pgn/${encodeURIComponent(moves)}#${ply}`, '_blank');
+}
+
+export const pgnFileAdapter: GameSourceAdapter = {
+  platform: 'pgn',
+  label: 'PGN file',
+  input: 'file',
+  cached: false,
+  gameTypes: GAME_TYPES,
+  fetchGames: async ({ file, username, startDate, endDate, gameType }: GameQuery) => {
+    if (!file) {
+      throw new MalformedResponseError('pgn');
+    }
+    return { games: await loadPgnGames(file, username, gameType, startDate, endDate) };
+  },
+  openPosition: openPgnPosition
+};
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { parseAnnotations, parsePGN, parsePGNGames, replayMainline, tokenizePGN } from './pgn';
+import { formatPGN } from './chess-com';
+
+const sans = (moves: { san: string }[]) => moves.map(move => move.san);
+
+describe('tokenizePGN', () => {
+  it('unescapes quotes and backslashes in header values', () => {
+    const [header] = tokenizePGN('[Event "The \\"Open\\" C:\\\\chess"]');
+    expect(header).toEqual({ type: 'header', name: 'Event', value: 'The "Open" C:\\chess' });
+  });
+
+  it('skips %-escaped lines and reads ; comments to the end of the line', () => {
+    const tokens = tokenizePGN('% ignored line\n1. e4 ; rest of line\ne5');
+    expect(tokens).toEqual([
+      { type: 'san', value: 'e4' },
+      { type: 'comment', value: 'rest of line' },
+      { type: 'san', value: 'e5' }
+    ]);
+  });
+
+  it('splits move suffixes into NAGs', () => {
+    expect(tokenizePGN('1. e4!? e5??')).toEqual([
+      { type: 'san', value: 'e4' },
+      { type: 'nag', value: 5 },
+      { type: 'san', value: 'e5' },
+      { type: 'nag', value: 4 }
+    ]);
+  });
+});
+
+describe('parseAnnotations', () => {
+  it('reads clocks, elapsed times and evaluations', () => {
+    expect(parseAnnotations('[%clk 1:02:03.4] [%emt 0:00:12] [%eval -0.35,20]')).toEqual({
+      clock: 3723.4,
+      emt: 12,
+      eval: -0.35
+    });
+  });
+
+  it('reads forced mates', () => {
+    expect(parseAnnotations('[%eval #-3]')).toEqual({ mate: -3 });
+  });
+});
+
+describe('parsePGNGames', () => {
+  it('keeps nested variations off the mainline', () => {
+    const game = parsePGN('1. e4 e5 (1... c5 2. Nf3 (2. c3 d5) 2... d6) 2. Nf3 Nc6 *')!;
+
+    expect(sans(game.mainline)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+    const [sicilian] = game.mainline[1].variations;
+    expect(sans(sicilian)).toEqual(['c5', 'Nf3', 'd6']);
+    expect(sicilian[0]).toMatchObject({ ply: 2, color: 'black' });
+    expect(sans(sicilian[1].variations[0])).toEqual(['c3', 'd5']);
+  });
+
+  it('attaches numeric and inline NAGs to the move before them', () => {
+    const game = parsePGN('1. e4 $1 e5 $2 $14 2. Nf3!! *')!;
+    expect(game.mainline.map(move => move.nags)).toEqual([[1], [2, 14], [3]]);
+  });
+
+  it('reads clock and elapsed-time comments per ply and keeps the text', () => {
+    const game = parsePGN(
+      '{Game start} 1. e4 {[%clk 0:02:59.9]} e5 {[%emt 0:00:04] Book move} 2. Nf3 {[%clk 0:02:58]} *'
+    )!;
+
+    expect(game.comments).toEqual(['Game start']);
+    expect(game.mainline[0]).toMatchObject({ clock: 179.9, comments: [] });
+    expect(game.mainline[1]).toMatchObject({ emt: 4, comments: ['Book move'] });
+    expect(game.mainline[2].clock).toBe(178);
+  });
+
+  it('splits multi-game files', () => {
+    const games = parsePGNGames([
+      '[White "a"]\n[Black "b"]\n[Result "1-0"]\n\n1. e4 e5 1-0',
+      '[White "c"]\n[Black "d"]\n[Result "0-1"]\n\n1. d4 d5 0-1',
+      '[White "e"]\n[Black "f"]\n\n1. c4 *'
+    ].join('\n\n'));
+
+    expect(games.map(game => game.headers.White)).toEqual(['a', 'c', 'e']);
+    expect(games.map(game => sans(game.mainline))).toEqual([['e4', 'e5'], ['d4', 'd5'], ['c4']]);
+  });
+
+  it.each(['1-0', '0-1', '1/2-1/2', '*'])('ends the game on the %s result token', result => {
+    const games = parsePGNGames(`1. e4 e5 ${result}\n\n1. d4 *`);
+    expect(games).toHaveLength(2);
+    expect(games[0].result).toBe(result);
+    expect(sans(games[0].mainline)).toEqual(['e4', 'e5']);
+  });
+
+  it('falls back to the Result header when the movetext has no result', () => {
+    expect(parsePGN('[Result "1/2-1/2"]\n\n1. e4 e5')!.result).toBe('1/2-1/2');
+  });
+
+  it('numbers plies from a FEN start with Black to move', () => {
+    const fen = '4k3/8/8/8/8/8/4P3/4K3 b - - 0 30';
+    const game = parsePGN(`[SetUp "1"]\n[FEN "${fen}"]\n\n30... Kd7 31. e4 *`)!;
+
+    expect(game.mainline[0]).toMatchObject({ ply: 60, moveNumber: 30, color: 'black' });
+    expect(game.mainline[1]).toMatchObject({ ply: 61, moveNumber: 31, color: 'white' });
+    expect(replayMainline(game).error).toBeUndefined();
+  });
+
+  describe('malformed input', () => {
+    it('returns nothing for empty or whitespace-only text', () => {
+      expect(parsePGNGames('')).toEqual([]);
+      expect(parsePGNGames('  \n\t ')).toEqual([]);
+    });
+
+    it('keeps reading after an unterminated comment', () => {
+      const game = parsePGN('1. e4 {never closed e5')!;
+      expect(sans(game.mainline)).toEqual(['e4']);
+      expect(game.mainline[0].comments).toEqual(['never closed e5']);
+    });
+
+    it('skips stray closing parentheses', () => {
+      expect(sans(parsePGN('1. e4 ) e5 2. Nf3 *')!.mainline)).toEqual(['e4', 'e5', 'Nf3']);
+    });
+
+    it('tolerates an unclosed variation', () => {
+      const game = parsePGN('1. e4 e5 (1... c5 2. Nf3')!;
+      expect(sans(game.mainline)).toEqual(['e4', 'e5']);
+      expect(sans(game.mainline[1].variations[0])).toEqual(['c5', 'Nf3']);
+    });
+
+    it('reports an illegal move when replaying', () => {
+      const game = parsePGN('1. e4 e5 2. Ke2 Nc6 3. Qh8 *')!;
+      expect(replayMainline(game).error).toMatchObject({ ply: 5, san: 'Qh8' });
+    });
+  });
+});
+
+describe('formatPGN', () => {
+  it('derives the move text and per-move think times', () => {
+    const { text, clocks } = formatPGN(
+      '[TimeControl "180+2"]\n\n1. e4 {[%clk 0:02:59]} e5 {[%clk 0:02:50]} 2. Nf3 {[%clk 0:02:40]} *'
+    );
+
+    expect(text).toBe('1. e4 1... e5 2. Nf3');
+    expect(clocks.map(clock => clock.timeSpent)).toEqual([3, 12, 21]);
+  });
+});
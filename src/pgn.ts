@@ -0,0 +1,285 @@
+import { Color } from './games';
+import { ReplayResult, replaySan } from './chess';
+
+// PGN tokenizer and parser: headers, mainline, comments, NAGs, variations and multi-game files
+export interface MoveAnnotations {
+  // Remaining clock in seconds from [%clk]
+  clock?: number;
+  // Elapsed move time in seconds from [%emt]
+  emt?: number;
+  // Engine evaluation from [%eval], in pawns from White's point of view
+  eval?: number;
+  // Forced mate from [%eval #n], positive when White mates
+  mate?: number;
+}
+
+export interface PgnMove extends MoveAnnotations {
+  san: string;
+  ply: number;
+  moveNumber: number;
+  color: Color;
+  nags: number[];
+  comments: string[];
+  variations: PgnMove[][];
+}
+
+export interface PgnGame {
+  headers: Record<string, string>;
+  comments: string[];
+  mainline: PgnMove[];
+  result: string;
+}
+
+export type PgnToken =
+  | { type: 'header'; name: string; value: string }
+  | { type: 'comment'; value: string }
+  | { type: 'nag'; value: number }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'result'; value: string }
+  | { type: 'san'; value: string };
+
+const RESULTS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// Sticky patterns so the tokenizer never copies the rest of a large file
+const HEADER_PATTERN = /\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/y;
+const WORD_PATTERN = /[^\s{}();[\]]+/y;
+
+// Move suffixes written inline ("e4!?") mean the same as the numeric NAGs
+const SUFFIX_NAGS: Record<string, number> = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6
+};
+
+export function tokenizePGN(pgn: string): PgnToken[] {
+  const tokens: PgnToken[] = [];
+  let i = 0;
+
+  while (i < pgn.length) {
+    const char = pgn[i];
+
+    // "%" at the start of a line escapes the whole line
+    if (char === '%' && (i === 0 || pgn[i - 1] === '\n')) {
+      const end = pgn.indexOf('\n', i);
+      i = end === -1 ? pgn.length : end + 1;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      HEADER_PATTERN.lastIndex = i;
+      const match = HEADER_PATTERN.exec(pgn);
+      if (match) {
+        tokens.push({ type: 'header', name: match[1], value: match[2].replace(/\\(.)/g, '$1') });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === '{') {
+      const end = pgn.indexOf('}', i);
+      const stop = end === -1 ? pgn.length : end;
+      tokens.push({ type: 'comment', value: pgn.slice(i + 1, stop).trim() });
+      i = stop + 1;
+      continue;
+    }
+
+    if (char === ';') {
+      const end = pgn.indexOf('\n', i);
+      const stop = end === -1 ? pgn.length : end;
+      tokens.push({ type: 'comment', value: pgn.slice(i + 1, stop).trim() });
+      i = stop + 1;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'open' });
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ type: 'close' });
+      i++;
+      continue;
+    }
+
+    // Anything else runs up to the next delimiter
+    WORD_PATTERN.lastIndex = i;
+    const match = WORD_PATTERN.exec(pgn);
+    const word = match ? match[0] : char;
+    i += word.length;
+
+    if (word.startsWith('$')) {
+      const nag = parseInt(word.slice(1));
+      if (!isNaN(nag)) tokens.push({ type: 'nag', value: nag });
+      continue;
+    }
+
+    if (RESULTS.includes(word)) {
+      tokens.push({ type: 'result', value: word });
+      continue;
+    }
+
+    // Strip move numbers ("12." / "12..." / "12...Nf3") and keep whatever follows
+    const san = word.replace(/^\d+\.+/, '');
+    if (!san || /^[\d.]+$/.test(san)) continue;
+
+    const suffix = /(!!|\?\?|!\?|\?!|!|\?)$/.exec(san);
+    if (suffix) {
+      tokens.push({ type: 'san', value: san.slice(0, -suffix[0].length) });
+      tokens.push({ type: 'nag', value: SUFFIX_NAGS[suffix[0]] });
+    } else {
+      tokens.push({ type: 'san', value: san });
+    }
+  }
+
+  return tokens;
+}
+
+function parseClockValue(value: string): number | undefined {
+  const parts = value.split(':').map(Number);
+  if (parts.some(isNaN)) return undefined;
+  return Math.round(parts.reduce((total, part) => total * 60 + part, 0) * 1000) / 1000;
+}
+
+export function parseAnnotations(comment: string): MoveAnnotations {
+  const annotations: MoveAnnotations = {};
+
+  const clock = /\[%clk\s+([\d:.]+)\]/.exec(comment);
+  if (clock) annotations.clock = parseClockValue(clock[1]);
+
+  const emt = /\[%emt\s+([\d:.]+)\]/.exec(comment);
+  if (emt) annotations.emt = parseClockValue(emt[1]);
+
+  const evaluation = /\[%eval\s+(#)?(-?[\d.]+)(?:,\d+)?\]/.exec(comment);
+  if (evaluation) {
+    if (evaluation[1]) {
+      annotations.mate = parseInt(evaluation[2]);
+    } else {
+      annotations.eval = parseFloat(evaluation[2]);
+    }
+  }
+
+  return annotations;
+}
+
+// Comment text without the [%...] command annotations
+export function stripAnnotations(comment: string): string {
+  return comment.replace(/\[%[^\]]*\]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function startingPosition(headers: Record<string, string>): { ply: number } {
+  // A FEN header can start the game with Black to move or from a later move number
+  const fen = headers.FEN;
+  if (!fen) return { ply: 0 };
+  const [, side, , , , fullmove] = fen.split(/\s+/);
+  const moveNumber = parseInt(fullmove) || 1;
+  return { ply: (moveNumber - 1) * 2 + (side === 'b' ? 1 : 0) };
+}
+
+function applyComment(move: PgnMove, comment: string) {
+  Object.assign(move, parseAnnotations(comment));
+  const text = stripAnnotations(comment);
+  if (text) move.comments.push(text);
+}
+
+// Parse one line of play starting at `index`; returns the index after it
+function parseLine(tokens: PgnToken[], index: number, startPly: number, line: PgnMove[], gameComments: string[]): number {
+  let ply = startPly;
+  let last: PgnMove | undefined;
+
+  while (index < tokens.length) {
+    const token = tokens[index];
+
+    if (token.type === 'header' || token.type === 'result' || token.type === 'close') {
+      return index;
+    }
+
+    index++;
+
+    if (token.type === 'san') {
+      ply++;
+      last = {
+        san: token.value,
+        ply,
+        moveNumber: Math.ceil(ply / 2),
+        color: ply % 2 === 1 ? 'white' : 'black',
+        nags: [],
+        comments: [],
+        variations: []
+      };
+      line.push(last);
+    } else if (token.type === 'comment') {
+      if (last) {
+        applyComment(last, token.value);
+      } else {
+        gameComments.push(token.value);
+      }
+    } else if (token.type === 'nag') {
+      last?.nags.push(token.value);
+    } else if (token.type === 'open') {
+      // A variation replaces the move just played, so it starts from the same ply
+      const variation: PgnMove[] = [];
+      index = parseLine(tokens, index, last ? last.ply - 1 : ply, variation, []);
+      if (tokens[index]?.type === 'close') index++;
+      if (last && variation.length > 0) last.variations.push(variation);
+    }
+  }
+
+  return index;
+}
+
+export function parsePGNGames(pgn: string): PgnGame[] {
+  const tokens = tokenizePGN(pgn);
+  const games: PgnGame[] = [];
+  let index = 0;
+
+  while (index < tokens.length) {
+    const headers: Record<string, string> = {};
+    while (index < tokens.length && tokens[index].type === 'header') {
+      const token = tokens[index] as { type: 'header'; name: string; value: string };
+      headers[token.name] = token.value;
+      index++;
+    }
+
+    const game: PgnGame = { headers, comments: [], mainline: [], result: headers.Result || '*' };
+    index = parseLine(tokens, index, startingPosition(headers).ply, game.mainline, game.comments);
+
+    // Stray closing parentheses are skipped and the mainline carries on after them
+    while (tokens[index]?.type === 'close') {
+      const lastPly = game.mainline.length > 0
+        ? game.mainline[game.mainline.length - 1].ply
+        : startingPosition(headers).ply;
+      index = parseLine(tokens, index + 1, lastPly, game.mainline, game.comments);
+    }
+
+    const end = tokens[index];
+    if (end?.type === 'result') {
+      game.result = end.value;
+      index++;
+    }
+
+    if (game.mainline.length > 0 || Object.keys(headers).length > 0) {
+      games.push(game);
+    }
+  }
+
+  return games;
+}
+
+export function parsePGN(pgn: string): PgnGame | undefined {
+  return parsePGNGames(pgn)[0];
+}
+
+export function replayMainline(game: PgnGame): ReplayResult {
+  return replaySan(game.mainline.map(move => move.san), game.headers.FEN);
+}
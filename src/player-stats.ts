@@ -0,0 +1,38 @@
+import { NormalizedGame, NormalizedMove } from './games';
+import { lostOnTime } from './clock-stats';
+
+export interface PlayerNapStats {
+  games: number;
+  moves: number;
+  naps: number;
+  // Naps per game played
+  napRate: number;
+  averageThink?: number;
+  longestThink?: number;
+  // Share of games lost on time, 0..1
+  timeLossRate: number;
+}
+
+export type PlayerMetric = keyof PlayerNapStats;
+
+export function playerNapStats(
+  games: NormalizedGame[],
+  isNap: (game: NormalizedGame, move: NormalizedMove) => boolean
+): PlayerNapStats {
+  const moves = games.flatMap(game => game.moves
+    .filter(move => move.color === game.userColor && move.thinkTime !== undefined)
+    .map(move => ({ game, move }))
+  );
+  const thinkTimes = moves.map(({ move }) => move.thinkTime!);
+  const naps = moves.filter(({ game, move }) => isNap(game, move)).length;
+
+  return {
+    games: games.length,
+    moves: moves.length,
+    naps,
+    napRate: games.length > 0 ? naps / games.length : 0,
+    averageThink: thinkTimes.length > 0 ? thinkTimes.reduce((sum, time) => sum + time, 0) / thinkTimes.length : undefined,
+    longestThink: thinkTimes.length > 0 ? Math.max(...thinkTimes) : undefined,
+    timeLossRate: games.length > 0 ? games.filter(lostOnTime).length / games.length : 0
+  };
+}
@@ -0,0 +1,82 @@
+import { GAME_TYPES, GameType, Platform } from './games';
+import { gameSources } from './sources';
+import { NAP_MODES, NapMode, NapThreshold } from './nap-threshold';
+import { SearchDefaults } from './use-game-search';
+import { DEFAULT_DIRECTIONS, DEFAULT_SORT, NapSort, NapSortKey } from './nap-table';
+
+// Everything needed to reopen the nap tracker on the same search
+export interface TrackerState {
+  search: Partial<SearchDefaults>;
+  napThreshold?: NapThreshold;
+  sortBy?: NapSort;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Only account-based sources can be restored from a link; a PGN file has to be picked again
+function accountPlatform(value: string | null | undefined): Platform | undefined {
+  const source = Object.values(gameSources).find(adapter => adapter.platform === value);
+  return source?.input === 'username' ? source.platform : undefined;
+}
+
+function validDate(value: string | null): string | undefined {
+  return value && DATE_PATTERN.test(value) ? value : undefined;
+}
+
+// Read the tracker's state from the query string, with `/nap-tracker/:platform/:username` filling in the account
+export function readTrackerState(
+  params: URLSearchParams,
+  path: { platform?: string; username?: string } = {}
+): TrackerState {
+  const search: Partial<SearchDefaults> = {};
+  const platform = accountPlatform(params.get('platform') ?? path.platform);
+  const username = params.get('user') ?? path.username;
+  if (platform && username) {
+    search.platform = platform;
+    search.username = username;
+    const linked = params.get('linked');
+    if (linked) search.linkedUsername = linked;
+  }
+
+  const gameType = params.get('type') as GameType | null;
+  if (gameType && GAME_TYPES.includes(gameType)) search.gameType = gameType;
+  const startDate = validDate(params.get('from'));
+  if (startDate) search.startDate = startDate;
+  const endDate = validDate(params.get('to'));
+  if (endDate) search.endDate = endDate;
+
+  const state: TrackerState = { search };
+  const mode = params.get('napMode') ?? 'seconds';
+  const value = Number(params.get('nap'));
+  if (Object.keys(NAP_MODES).includes(mode) && params.has('nap') && value > 0) {
+    state.napThreshold = { mode: mode as NapMode, value };
+  }
+  const sortKey = params.get('sort') as NapSortKey | null;
+  if (sortKey && Object.keys(DEFAULT_DIRECTIONS).includes(sortKey)) {
+    const order = params.get('order');
+    state.sortBy = { key: sortKey, direction: order === 'asc' || order === 'desc' ? order : DEFAULT_DIRECTIONS[sortKey] };
+  }
+  return state;
+}
+
+export function writeTrackerState({ search, napThreshold, sortBy }: TrackerState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (search.username && accountPlatform(search.platform)) {
+    params.set('platform', search.platform!);
+    params.set('user', search.username);
+    if (search.linkedUsername) params.set('linked', search.linkedUsername);
+  }
+  if (search.gameType && search.gameType !== 'all') params.set('type', search.gameType);
+  // Dates are always written so a link keeps meaning the same games as time passes
+  if (search.startDate) params.set('from', search.startDate);
+  if (search.endDate) params.set('to', search.endDate);
+  if (napThreshold) {
+    if (napThreshold.mode !== 'seconds') params.set('napMode', napThreshold.mode);
+    params.set('nap', String(napThreshold.value));
+  }
+  if (sortBy && (sortBy.key !== DEFAULT_SORT.key || sortBy.direction !== DEFAULT_SORT.direction)) {
+    params.set('sort', sortBy.key);
+    if (sortBy.direction !== DEFAULT_DIRECTIONS[sortBy.key]) params.set('order', sortBy.direction);
+  }
+  return params;
+}
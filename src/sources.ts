@@ -0,0 +1,11 @@
+import { GameSourceAdapter, Platform } from './games';
+import { chessComAdapter } from './chess-com';
+import { lichessAdapter } from './lichess';
+import { pgnFileAdapter } from './pgn-file';
+
+// Every game source the UI can load from, keyed by platform
+export const gameSources: Record<Platform, GameSourceAdapter> = {
+  'chess.com': chessComAdapter,
+  'lichess.org': lichessAdapter,
+  'pgn': pgnFileAdapter
+};
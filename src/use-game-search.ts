@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState } from 'react';
+import { GameType, NormalizedGame, Platform, UploadedFile, failedArchives } from './games';
+import { gameSources } from './sources';
+import { SyncInfo, clearCache, getSyncInfo } from './cache';
+import { GameSourceError, MalformedResponseError } from './errors';
+import { listPgnPlayers } from './pgn-file';
+import { PlayerRef, loadPlayers } from './club';
+
+// The other site a profile can link, for players active on both
+export const LINKED_PLATFORMS: Partial<Record<Platform, Platform>> = {
+  'chess.com': 'lichess.org',
+  'lichess.org': 'chess.com'
+};
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+// The form fields a search can be started from, e.g. when restored from a link
+export interface SearchDefaults {
+  username: string;
+  platform: Platform;
+  linkedUsername: string;
+  gameType: GameType;
+  startDate: string;
+  endDate: string;
+}
+
+// Search form and game loading shared by every tool that works on a player's games
+export function useGameSearch(initial: Partial<SearchDefaults> = {}) {
+  const [username, setUsername] = useState(initial.username ?? '');
+  const [platform, setPlatform] = useState<Platform>(initial.platform ?? 'chess.com');
+  const [linkedUsername, setLinkedUsername] = useState(initial.linkedUsername ?? '');
+  const [gameType, setGameType] = useState<GameType>(initial.gameType ?? 'all');
+  const [startDate, setStartDate] = useState<string>(initial.startDate ?? daysAgo(30));
+  const [endDate, setEndDate] = useState<string>(initial.endDate ?? daysAgo(0));
+  const [pgnFile, setPgnFile] = useState<UploadedFile | null>(null);
+  const [pgnPlayers, setPgnPlayers] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [games, setGames] = useState<NormalizedGame[]>([]);
+  const [error, setError] = useState('');
+  const [canRetry, setCanRetry] = useState(false);
+  const [missingMonths, setMissingMonths] = useState<string[]>([]);
+  const [syncInfo, setSyncInfo] = useState<SyncInfo | undefined>();
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const source = gameSources[platform];
+  const linkedPlatform = LINKED_PLATFORMS[platform];
+  const linkedSource = linkedPlatform ? gameSources[linkedPlatform] : undefined;
+  // A linked profile can only filter by game types both sites support
+  const gameTypes = linkedSource && linkedUsername.trim()
+    ? source.gameTypes.filter(type => linkedSource.gameTypes.includes(type))
+    : source.gameTypes;
+
+  useEffect(() => {
+    if (!gameTypes.includes(gameType)) setGameType('all');
+  }, [gameTypes, gameType]);
+
+  // Drop any in-flight load when the search target changes so results never mix
+  useEffect(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+      setGames([]);
+      setMissingMonths([]);
+      setIsLoading(false);
+    }
+  }, [platform, username, linkedUsername]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!username || !gameSources[platform].cached) {
+      setSyncInfo(undefined);
+      return;
+    }
+    getSyncInfo(platform, username).then(info => {
+      if (!cancelled) setSyncInfo(info);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [platform, username]);
+
+  // The linked account belongs to the other site, so it doesn't survive a platform switch
+  const changePlatform = (next: Platform) => {
+    setPlatform(next);
+    setLinkedUsername('');
+  };
+
+  // The file is read here, once; nothing awaits this, so a failed read goes to the error state
+  const changePgnFile = async (file: File) => {
+    setError('');
+    setCanRetry(false);
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setPgnFile(null);
+      setPgnPlayers([]);
+      setError(new MalformedResponseError('pgn').message);
+      return;
+    }
+
+    setPgnFile({ name: file.name, text, lastModified: file.lastModified });
+    const players = listPgnPlayers(text);
+    setPgnPlayers(players);
+    // Preselect the most frequent name, which is almost always the file owner
+    setUsername(players[0] || '');
+  };
+
+  const fetchGames = async () => {
+    if (source.input === 'file' && !pgnFile) {
+      setError('Please choose a PGN file');
+      return;
+    }
+
+    if (!username) {
+      setError(source.input === 'file' ? 'Please choose which player you are' : 'Please enter a username');
+      return;
+    }
+
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsLoading(true);
+    setError('');
+    setCanRetry(false);
+    setMissingMonths([]);
+    setGames([]);
+
+    try {
+      if (linkedPlatform && linkedUsername.trim()) {
+        await fetchLinkedProfile(controller, [
+          { platform, username },
+          { platform: linkedPlatform, username: linkedUsername.trim() }
+        ]);
+        return;
+      }
+
+      const result = await source.fetchGames(
+        {
+          username,
+          gameType,
+          startDate,
+          endDate,
+          file: pgnFile || undefined
+        },
+        {
+          signal: controller.signal,
+          onProgress: (partial) => {
+            if (!controller.signal.aborted) setGames(partial);
+          }
+        }
+      );
+
+      if (!controller.signal.aborted) {
+        setGames(result.games);
+        setMissingMonths(failedArchives(result));
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'Failed to fetch games. Please try again.');
+      setCanRetry(!(err instanceof GameSourceError) || err.retryable);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+        if (source.cached) setSyncInfo(await getSyncInfo(platform, username));
+      }
+    }
+  };
+
+  // Load both accounts of a linked profile and merge them into one chronological list
+  const fetchLinkedProfile = async (controller: AbortController, players: PlayerRef[]) => {
+    const loaded: NormalizedGame[] = [];
+    const loads = await loadPlayers(players, { gameType, startDate, endDate }, {
+      signal: controller.signal,
+      onPlayerLoaded: (load) => {
+        if (controller.signal.aborted) return;
+        loaded.push(...load.games);
+        setGames([...loaded].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+      }
+    });
+    if (controller.signal.aborted) return;
+
+    setMissingMonths(loads.flatMap(load =>
+      load.missingMonths.map(month => `${gameSources[load.player.platform].label} ${month}`)
+    ));
+    const failures = loads.filter(load => load.error);
+    if (failures.length > 0) {
+      setError(failures.map(load => load.error).join(' '));
+      setCanRetry(true);
+    }
+  };
+
+  const cancelFetch = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+  };
+
+  const clearSourceCache = async () => {
+    await clearCache(platform, username);
+    setSyncInfo(undefined);
+  };
+
+  return {
+    username,
+    setUsername,
+    platform,
+    setPlatform: changePlatform,
+    linkedPlatform,
+    linkedUsername,
+    setLinkedUsername,
+    gameTypes,
+    gameType,
+    setGameType,
+    startDate,
+    setStartDate,
+    endDate,
+    setEndDate,
+    pgnFile,
+    pgnPlayers,
+    changePgnFile,
+    source,
+    isLoading,
+    games,
+    error,
+    canRetry,
+    missingMonths,
+    syncInfo,
+    fetchGames,
+    cancelFetch,
+    clearSourceCache
+  };
+}
+
+export type GameSearch = ReturnType<typeof useGameSearch>;
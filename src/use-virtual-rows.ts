@@ -0,0 +1,53 @@
+import { UIEvent, useEffect, useRef, useState } from 'react';
+
+interface VirtualRowOptions {
+  // Estimated height of a collapsed row in pixels
+  rowHeight: number;
+  // Index of the one row opened underneath with extra content, and that content's estimated height
+  expandedIndex?: number;
+  expandedHeight?: number;
+  // Rows rendered beyond each edge of the viewport
+  overscan?: number;
+}
+
+// Render only the rows around a scroll container's viewport, padding the rest with spacers
+export function useVirtualRows(
+  count: number,
+  { rowHeight, expandedIndex, expandedHeight = 0, overscan = 10 }: VirtualRowOptions
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const extra = expandedIndex === undefined ? 0 : expandedHeight;
+  const offsetOf = (index: number) =>
+    index * rowHeight + (expandedIndex !== undefined && index > expandedIndex ? extra : 0);
+
+  const indexAt = (y: number) => {
+    if (expandedIndex === undefined) return Math.floor(y / rowHeight);
+    const detailTop = (expandedIndex + 1) * rowHeight;
+    if (y < detailTop) return Math.floor(y / rowHeight);
+    if (y < detailTop + extra) return expandedIndex;
+    return Math.floor((y - extra) / rowHeight);
+  };
+
+  const start = Math.max(0, Math.min(count, indexAt(scrollTop) - overscan));
+  const end = Math.min(count, indexAt(scrollTop + viewportHeight) + 1 + overscan);
+
+  return {
+    containerRef,
+    onScroll: (event: UIEvent<HTMLElement>) => setScrollTop(event.currentTarget.scrollTop),
+    start,
+    end,
+    paddingTop: offsetOf(start),
+    paddingBottom: Math.max(0, count * rowHeight + extra - offsetOf(end))
+  };
+}